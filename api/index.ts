@@ -1,13 +1,34 @@
-import { Hono } from "hono";
-
-interface Env {
-  ASSETS: {
-    fetch: (request: Request) => Promise<Response>;
-  };
-  ANALYTICS_PIPELINE: {
-    send(records: Record<string, unknown>[]): Promise<void>;
-  };
-}
+import { Hono, type Context } from "hono";
+
+import {
+  validateBatchEnvelope,
+  validateEventPayload,
+  validateQueuedEvent,
+  type QueuedEvent,
+  type ValidationError,
+} from "../src/lib/schema";
+import { createDedupeStore, createOrderDedupeStore, type DedupeStore } from "./lib/dedupe";
+import { createEventBuffer, handleQueueBatch } from "./lib/delivery";
+import { getGeoInfo, type RequestGeo } from "./lib/geo";
+import { getVisitorHashSecret, getVisitorPrivacy, type VisitorPrivacy } from "./lib/privacy";
+import {
+  checkPropertyLimits,
+  checkRateLimits,
+  createRateLimiter,
+  getIngestLimits,
+  MAX_INGEST_BODY_BYTES,
+} from "./lib/rate-limit";
+import { buildRecord, type AnalyticsRecord, type RecordContext } from "./lib/records";
+import {
+  authorizeSite,
+  createSiteRegistry,
+  getSiteCorsHeaders,
+  shouldDropBotTraffic,
+  type SiteConfig,
+} from "./lib/sites";
+import { parseUserAgent } from "./lib/user-agent";
+import statsRoutes from "./routes/stats";
+import type { Env } from "./types";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -99,337 +120,455 @@ function handleCacheHeaders(ifModifiedSince: string | null): {
   };
 }
 
-function extractDeviceInfo(userAgent?: string) {
-  let browser = "Unknown";
-  let os = "Unknown";
-  let device = "Unknown";
-
-  if (!userAgent) {
-    return { browser, os, device };
-  }
-
-  // Extract browser
-  if (userAgent.includes("Firefox")) {
-    browser = "Firefox";
-  } else if (userAgent.includes("Chrome")) {
-    browser = "Chrome";
-  } else if (userAgent.includes("Safari")) {
-    browser = "Safari";
-  } else if (userAgent.includes("Opera") || userAgent.includes("OPR")) {
-    browser = "Opera";
-  } else if (userAgent.includes("Edge")) {
-    browser = "Edge";
-  } else if (userAgent.includes("MSIE") || userAgent.includes("Trident/")) {
-    browser = "Internet Explorer";
-  }
-
-  // Extract OS
-  if (userAgent.includes("Win")) {
-    os = "Windows";
-  } else if (userAgent.includes("Mac")) {
-    os = "MacOS";
-  } else if (userAgent.includes("Linux")) {
-    os = "Linux";
-  } else if (userAgent.includes("Android")) {
-    os = "Android";
-  } else if (userAgent.includes("iOS")) {
-    os = "iOS";
-  }
-
-  // Extract device
-  const mobileKeywords = [
-    "Android",
-    "webOS",
-    "iPhone",
-    "iPad",
-    "iPod",
-    "BlackBerry",
-    "Windows Phone",
-  ];
-  device = mobileKeywords.some((keyword) => userAgent.includes(keyword))
-    ? "Mobile"
-    : "Desktop";
-
-  return { browser, os, device };
+// Hash the requesting visitor and anonymise their IP per the site's privacy settings
+function getRequestVisitor(c: Context<{ Bindings: Env }>, site: SiteConfig): Promise<VisitorPrivacy> {
+  const ip = c.req.header("cf-connecting-ip") || "unknown";
+  const userAgent = c.req.header("user-agent") || "";
+  const secret = getVisitorHashSecret(c.env.VISITOR_HASH_SECRET);
+  return getVisitorPrivacy(ip, userAgent, site.siteId, secret, site.settings?.privacy);
 }
 
-// Extract screen dimensions from the 'r' parameter (e.g., 1800x1169x30x30)
-function parseScreenDimensions(dimensionStr: string) {
-  if (!dimensionStr) return null;
-  
-  const parts = dimensionStr.split('x');
-  if (parts.length < 2) return null;
-  
+// Request-level details for building records. Only requests made by a page
+// itself, rather than by the tracker, should pass a fallback page URL.
+function getRecordContext(
+  c: Context<{ Bindings: Env }>,
+  site: SiteConfig,
+  visitor: VisitorPrivacy,
+  fallbackPageUrl: string | null = null,
+): RecordContext {
+  const userAgent = c.req.header("user-agent") || "";
   return {
-    width: Number.parseInt(parts[0], 10) || 0,
-    height: Number.parseInt(parts[1], 10) || 0,
-    offsetX: parts.length > 2 ? (Number.parseInt(parts[2], 10) || 0) : 0,
-    offsetY: parts.length > 3 ? (Number.parseInt(parts[3], 10) || 0) : 0,
+    site,
+    visitor,
+    userAgent,
+    userAgentInfo: parseUserAgent(userAgent),
+    geo: getGeoInfo(c.req.raw.cf as RequestGeo | undefined, site.settings?.geo),
+    fallbackPageUrl,
+    receivedAt: new Date(),
   };
 }
 
-// Collect standard analytics data common to both pageviews and events
-function collectCommonAnalyticsData(c: any, queryParams: Record<string, string>, isPageView = true) {
-  const { userAgent } = c.req.header();
-  const ifModifiedSince = c.req.header('if-modified-since');
-  const ip = c.req.raw.headers.get("CF-Connecting-IP") || "unknown";
-  const { referer } = c.req.header();
-  const url = c.req.url;
-  const path = new URL(c.req.url).pathname;
-  
-  // Extract query parameters
-  const {
-    s: siteId = "",
-    ts: timestamp = "",
-    vtag: versionTag = "",
-    r: screenDimensions = "",
-    re: viewportDimensions = "",
-    lng: language = "",
-    content_type: contentType = "",
-    library_version: libraryVersion = "",
-    app_name: appName = "",
-    app_type: appType = "",
-    user_id: userId = "",
-    p: pagePath = "", // Page path
-    ref: referrer = referer || "", // Referrer
-  } = queryParams;
-
-  // Get cookieless tracking information - only for pageviews
-  let hits = 0;
-  let isVisit = false;
-  let bounceValue = 0;
-  let nextLastModifiedDate: Date | undefined;
-
-  if (isPageView) {
-    // Get hit count from cache headers
-    const cacheResult = handleCacheHeaders(ifModifiedSince || null);
-    hits = cacheResult.hits;
-    nextLastModifiedDate = cacheResult.nextLastModifiedDate;
-
-    isVisit = hits === 1; // if first hit, it is a visit
-    bounceValue = getBounceValue(hits);
-  }
-
-  const { browser, os, device } = extractDeviceInfo(userAgent);
-  const parsedScreenDimensions = parseScreenDimensions(screenDimensions);
-  const parsedViewport = parseScreenDimensions(viewportDimensions);
-  const currentTimestamp = new Date().toISOString();
-
-  const analyticsData = {
-    timestamp: currentTimestamp,
-    session_data: {
-      site_id: siteId,
-      client_timestamp: timestamp || Date.now().toString(),
-      user_id: userId || `user${Math.floor(Math.random() * 1000)}`,
-      hits,
-      new_visitor: isVisit ? 1 : 0,
-      bounce: bounceValue,
-    },
-    event_data: {
-      event_id: Math.floor(Math.random() * 1000),
-      version_tag: versionTag,
-      content_type: contentType,
-    },
-    app_data: {
-      app_name: appName,
-      app_type: appType,
-      library_version: libraryVersion,
-      language: language,
-    },
-    device_info: {
-      browser,
-      os,
-      device,
-      userAgent,
-      screen: parsedScreenDimensions,
-      viewport: parsedViewport,
-    },
-    referrer: referrer || "NA",
-    page: {
-      url,
-      path: pagePath || path,
-    },
-    ip,
-    raw_query_params: queryParams,
-  };
+// Read a JSON request body, refusing bodies over the ingest ceiling before
+// the site and its own limits are known. The Content-Type isn't checked, as
+// sendBeacon posts JSON as text/plain to avoid a CORS preflight.
+async function readJsonBody(
+  c: Context<{ Bindings: Env }>,
+): Promise<{ ok: true; body: unknown; bytes: number } | { ok: false; status: 400 | 413; error: string }> {
+  if (Number(c.req.header("content-length") || 0) > MAX_INGEST_BODY_BYTES) {
+    return { ok: false, status: 413, error: "Payload too large" };
+  }
+
+  const text = await c.req.text();
+  const bytes = new TextEncoder().encode(text).length;
+  if (bytes > MAX_INGEST_BODY_BYTES) {
+    return { ok: false, status: 413, error: "Payload too large" };
+  }
 
-  return { analyticsData, nextLastModifiedDate };
+  try {
+    return { ok: true, body: JSON.parse(text), bytes };
+  } catch (e) {
+    return { ok: false, status: 400, error: "Invalid JSON payload" };
+  }
+}
+
+// Count events from the requesting IP against the site's rate limits
+function checkRequestRateLimits(c: Context<{ Bindings: Env }>, site: SiteConfig, count: number) {
+  const ip = c.req.header("cf-connecting-ip") || "unknown";
+  return checkRateLimits(createRateLimiter(c.env), site, ip, count);
+}
+
+// Refuse a request over a rate limit, telling the client when to retry
+function rateLimitedResponse(c: Context<{ Bindings: Env }>, retryAfterSeconds: number) {
+  c.header("Retry-After", String(retryAfterSeconds));
+  c.header("Access-Control-Expose-Headers", "Retry-After");
+  return c.json({ error: "Rate limit exceeded", retryAfter: retryAfterSeconds }, 429);
+}
+
+// Hand records to the event buffer, which delivers them to the pipeline with
+// retries. Returns false if the buffer couldn't take them.
+async function bufferRecords(c: Context<{ Bindings: Env }>, records: AnalyticsRecord[]): Promise<boolean> {
+  try {
+    await createEventBuffer(c.env, c.executionCtx).enqueue(records);
+    return true;
+  } catch (error) {
+    console.error("Failed to buffer events", error);
+    return false;
+  }
+}
+
+// Per-event outcome reported back from the batch endpoint
+type EventStatus = {
+  index: number;
+  eventId?: string;
+  status: "accepted" | "duplicate" | "rejected";
+};
+
+// Claim client event IDs, or purchase order IDs, so that retried events are
+// only recorded once. If the dedupe store is unavailable, events are accepted
+// rather than lost.
+async function claimIds(store: DedupeStore, siteId: string, ids: string[]): Promise<Set<string>> {
+  try {
+    return await store.claim(siteId, ids);
+  } catch (error) {
+    console.error("Failed to check for duplicate events", error);
+    return new Set(ids);
+  }
 }
 
-// Endpoint for batch event processing
+// Give up claims on events that weren't recorded, so their retries are accepted
+async function releaseIds(store: DedupeStore, siteId: string, ids: string[]): Promise<void> {
+  try {
+    await store.release(siteId, ids);
+  } catch (error) {
+    console.error("Failed to release event IDs", error);
+  }
+}
+
+// Order ID of a purchase, which is recorded once per order
+function getOrderId(event: QueuedEvent): string | undefined {
+  return event.type === "ecommerce" && event.action === "purchase" ? event.orderId : undefined;
+}
+
+// Cookieless pageview endpoint, counting visits through the browser cache.
+// The browser echoes the Last-Modified value back as If-Modified-Since on the
+// next request to the same URL, so the URL should stay stable per site (avoid
+// cache-busting params such as `ts`) for the daily hit counter to work.
+app.get("/pageview", async (c) => {
+  const queryParams = c.req.query();
+
+  if (!queryParams.s) {
+    return c.json({ error: "Missing required field: s" }, 400);
+  }
+
+  const origin = c.req.header("origin");
+  const access = await authorizeSite(createSiteRegistry(c.env), queryParams.s, {
+    origin,
+    ingestKey: c.req.header("x-site-key") || queryParams.key,
+  });
+  if (!access.ok) {
+    return c.json({ error: access.error }, access.status);
+  }
+
+  const rateLimit = await checkRequestRateLimits(c, access.site, 1);
+  if (!rateLimit.allowed) {
+    for (const [name, value] of Object.entries(getSiteCorsHeaders(access.site, origin))) {
+      c.header(name, value);
+    }
+    return rateLimitedResponse(c, rateLimit.retryAfterSeconds);
+  }
+
+  // The page embedding the pixel or script is the request's Referer
+  const visitor = await getRequestVisitor(c, access.site);
+  const context = getRecordContext(c, access.site, visitor, c.req.header("referer") || null);
+
+  // Bots don't count as visitors, so don't advance their hit counter either
+  if (context.userAgentInfo.isBot && shouldDropBotTraffic(access.site)) {
+    return new Response(null, { status: 204, headers: getSiteCorsHeaders(access.site, origin) });
+  }
+
+  // Get hit count from cache headers
+  const { hits, nextLastModifiedDate } = handleCacheHeaders(c.req.header("if-modified-since") || null);
+
+  const buffered = await bufferRecords(c, [
+    buildRecord(context, {
+      event: { type: "pageview" },
+      params: queryParams,
+      visitCounters: { hits, newVisitor: hits === 1, bounce: getBounceValue(hits) },
+    }),
+  ]);
+
+  // Don't advance the hit counter for a pageview that wasn't recorded
+  if (!buffered) {
+    return new Response(null, { status: 503, headers: getSiteCorsHeaders(access.site, origin) });
+  }
+
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...getSiteCorsHeaders(access.site, origin),
+      // Force revalidation so the browser always sends If-Modified-Since
+      "Cache-Control": "no-cache",
+      "Last-Modified": nextLastModifiedDate.toUTCString(),
+    },
+  });
+});
+
+// Endpoint for batch event processing. Beacons can't set headers, so the
+// site key may also be passed as the `key` query parameter.
 app.post("/batch", async (c) => {
   // Parse the batch data
-  let batchData;
-  try {
-    batchData = await c.req.json();
-  } catch (e) {
-    return c.json({ error: "Invalid JSON payload" }, 400);
+  const body = await readJsonBody(c);
+  if (!body.ok) {
+    return c.json({ error: body.error }, body.status);
   }
 
-  // Validate required fields
-  if (!batchData.siteId || !Array.isArray(batchData.events) || batchData.events.length === 0) {
-    return c.json({ error: "Missing required fields: siteId and events" }, 400);
+  // Validate the batch envelope
+  const envelope = validateBatchEnvelope(body.body);
+  if (!envelope.valid) {
+    return c.json({ error: "Invalid batch payload", errors: envelope.errors }, 400);
   }
+  const batchData = envelope.value;
 
-  const { userAgent } = c.req.header();
-  const ip = c.req.raw.headers.get("CF-Connecting-IP") || "unknown";
-  const { browser, os, device } = extractDeviceInfo(userAgent);
-  
-  // Process each event in the batch
-  const processedEvents = batchData.events.map(event => {
-    // Get common data from commonParams
-    const commonParams = batchData.commonParams || {};
-    
-    // Base analytics data structure
-    const analyticsData = {
-      timestamp: new Date().toISOString(),
-      session_data: {
-        site_id: batchData.siteId,
-        user_id: batchData.userId || commonParams.user_id || `user${Math.floor(Math.random() * 1000)}`,
-        session_id: batchData.sessionId || commonParams.session_id,
-        client_timestamp: batchData.timestamp || Date.now().toString(),
-      },
-      device_info: {
-        browser,
-        os,
-        device,
-        userAgent,
-        screen: parseScreenDimensions(commonParams.r || ''),
-        viewport: parseScreenDimensions(commonParams.re || ''),
-      },
-      referrer: commonParams.ref || "NA",
-      ip,
-    };
-    
-    // Add event-specific data based on type
-    if (event.type === 'pageview') {
-      return {
-        ...analyticsData,
-        event_data: {
-          event_type: 'pageview',
-          content_type: event.contentType || 'page',
-          virtual_pageview: event.virtualPageview || false,
-        },
-        page: {
-          path: event.path || commonParams.p || '',
-          title: event.title || commonParams.title || '',
-          language: event.language || commonParams.lng || '',
-        },
-        data_type: 'pageview',
-      };
+  // Check the site exists and accepts events from this origin
+  const origin = c.req.header("origin");
+  const access = await authorizeSite(createSiteRegistry(c.env), batchData.siteId, {
+    origin,
+    ingestKey: c.req.header("x-site-key") || c.req.query("key"),
+  });
+  if (!access.ok) {
+    return c.json({ error: access.error }, access.status);
+  }
+  for (const [name, value] of Object.entries(getSiteCorsHeaders(access.site, origin))) {
+    c.header(name, value);
+  }
+
+  // Sites can set lower limits than the tracker's batches, so the limits are
+  // returned for the tracker to split the batch and send it again
+  const limits = getIngestLimits(access.site);
+  const batchLimits = { maxBatchEvents: limits.maxBatchEvents, maxBodyBytes: limits.maxBodyBytes };
+  if (body.bytes > limits.maxBodyBytes) {
+    return c.json({ error: `Payload exceeds ${limits.maxBodyBytes} bytes`, limits: batchLimits }, 413);
+  }
+  if (batchData.events.length > limits.maxBatchEvents) {
+    return c.json({ error: `Batch exceeds ${limits.maxBatchEvents} events`, limits: batchLimits }, 413);
+  }
+
+  // Validate each event, rejecting invalid ones individually
+  const validEvents: Array<{ index: number; event: QueuedEvent }> = [];
+  const rejected: Array<{ index: number; errors: ValidationError[] }> = [];
+  const statuses: EventStatus[] = [];
+  batchData.events.forEach((event, index) => {
+    const result = validateQueuedEvent(event);
+    // Custom event properties and identity traits are both free-form
+    const value = result.valid ? result.value : null;
+    const freeFormField = value?.type === "identify" ? "traits" : "properties";
+    const propertiesError =
+      value &&
+      checkPropertyLimits(
+        value.type === "event" ? value.properties : value.type === "identify" ? value.traits : undefined,
+        limits,
+        freeFormField,
+      );
+    if (propertiesError) {
+      rejected.push({ index, errors: [{ code: "invalid_field", field: freeFormField, message: propertiesError }] });
+      statuses[index] = { index, status: "rejected" };
+    } else if (result.valid) {
+      validEvents.push({ index, event: result.value });
+    } else {
+      rejected.push({ index, errors: result.errors });
+      statuses[index] = { index, status: "rejected" };
+    }
+  });
+
+  if (validEvents.length === 0) {
+    return c.json({ error: "No valid events in batch", rejected }, 400);
+  }
+
+  const rateLimit = await checkRequestRateLimits(c, access.site, validEvents.length);
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(c, rateLimit.retryAfterSeconds);
+  }
+
+  const visitor = await getRequestVisitor(c, access.site);
+  const context = getRecordContext(c, access.site, visitor);
+
+  // Acknowledge bot traffic without sending it on
+  if (context.userAgentInfo.isBot && shouldDropBotTraffic(access.site)) {
+    return c.json({ success: true, processed: 0, rejected }, 200);
+  }
+
+  // Process each event in the batch. Records are built before any IDs are
+  // claimed, so a failure here doesn't leave retries marked as duplicates.
+  const commonParams = batchData.commonParams || {};
+  const builtEvents = validEvents.map(({ index, event }) => ({
+    index,
+    event,
+    record: buildRecord(context, {
+      event,
+      params: commonParams,
+      userId: batchData.userId,
+      sessionId: batchData.sessionId,
+      sentAt: batchData.timestamp,
+    }),
+  }));
+
+  // Skip events already accepted in an earlier request, or earlier in this one
+  const dedupeStore = createDedupeStore(c.env);
+  const eventIds = validEvents.flatMap(({ event }) => (event.eventId ? [event.eventId] : []));
+  const claimed = await claimIds(dedupeStore, batchData.siteId, [...new Set(eventIds)]);
+  const unseenEvents = builtEvents.filter(({ index, event }) => {
+    const eventId = event.eventId;
+    // Each claimed ID is used up by its first event in the batch
+    if (eventId && !claimed.delete(eventId)) {
+      statuses[index] = { index, eventId, status: "duplicate" };
+      return false;
     }
-    if (event.type === 'event') {
-      return {
-        ...analyticsData,
-        event_data: {
-          event_type: 'custom',
-          event_name: event.eventName,
-          event_category: event.eventCategory || 'interaction',
-          event_label: event.eventLabel || '',
-          event_value: event.eventValue || 0,
-          non_interaction: event.nonInteraction || false,
-        },
-        properties: event.properties || {},
-        data_type: 'event',
-      };
+    statuses[index] = { index, eventId, status: "accepted" };
+    return true;
+  });
+
+  // Skip purchases of orders already recorded, e.g. from a reloaded
+  // confirmation page, which sends the order again with a new event ID
+  const orderStore = createOrderDedupeStore(c.env);
+  const orderIds = unseenEvents.flatMap(({ event }) => getOrderId(event) || []);
+  const claimedOrders = await claimIds(orderStore, batchData.siteId, [...new Set(orderIds)]);
+  const newEvents = unseenEvents.filter(({ index, event }) => {
+    const orderId = getOrderId(event);
+    if (orderId && !claimedOrders.delete(orderId)) {
+      statuses[index] = { index, eventId: event.eventId, status: "duplicate" };
+      return false;
     }
-    
-    // Default fallback structure
-    return {
-      ...analyticsData,
-      event_data: {
-        event_type: 'unknown',
-      },
-      raw_event: event,
-      data_type: 'unknown',
-    };
+    return true;
   });
+  const newEventIds = newEvents.flatMap(({ event }) => (event.eventId ? [event.eventId] : []));
+  const newOrderIds = newEvents.flatMap(({ event }) => getOrderId(event) || []);
+  const duplicates = validEvents.length - newEvents.length;
 
-  // Send all processed events to analytics pipeline
-  await c.env.ANALYTICS_PIPELINE.send(processedEvents);
+  if (newEvents.length === 0) {
+    return c.json({ success: true, processed: 0, duplicates, rejected, events: statuses }, 200);
+  }
+  
+  const processedEvents = newEvents.map(({ record }) => record);
 
-  // Return success response
+  // Buffer the processed events for delivery to the analytics pipeline
+  if (!(await bufferRecords(c, processedEvents))) {
+    await releaseIds(dedupeStore, batchData.siteId, newEventIds);
+    await releaseIds(orderStore, batchData.siteId, newOrderIds);
+    return c.json({ error: "Failed to accept events, try again later" }, 503);
+  }
+
+  // Accepted: delivery to the pipeline happens in the background
   return c.json({ 
     success: true, 
-    processed: processedEvents.length 
-  }, 200);
+    processed: processedEvents.length,
+    duplicates,
+    rejected,
+    events: statuses,
+  }, 202);
 });
 
-// CORS preflight for the batch endpoint
-app.options("/batch", (c) => {
+// CORS preflight for the ingest endpoints. The site ID is only known from the
+// request body, so the origin is checked against the site on the actual request.
+function handlePreflight(c: Context<{ Bindings: Env }>) {
   return new Response(null, {
     status: 204,
     headers: {
-      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Origin": c.req.header("origin") || "*",
       "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers": "Content-Type, X-Site-Key",
       "Access-Control-Max-Age": "86400",
+      Vary: "Origin",
     },
   });
-});
+}
+
+// CORS preflight for the batch endpoint
+app.options("/batch", handlePreflight);
 
 // New endpoint for tracking events with richer data
 app.post("/event", async (c) => {
   // Parse the event data
-  let eventData;
-  try {
-    eventData = await c.req.json();
-  } catch (e) {
-    return c.json({ error: "Invalid JSON payload" }, 400);
+  const body = await readJsonBody(c);
+  if (!body.ok) {
+    return c.json({ error: body.error }, body.status);
+  }
+
+  // Validate the event payload
+  const validation = validateEventPayload(body.body);
+  if (!validation.valid) {
+    return c.json({ error: "Invalid event payload", errors: validation.errors }, 400);
   }
+  const eventData = validation.value;
 
-  // Validate required fields
-  if (!eventData.siteId || !eventData.eventName) {
-    return c.json({ error: "Missing required fields: siteId and eventName" }, 400);
+  // Check the site exists and accepts events from this origin
+  const origin = c.req.header("origin");
+  const access = await authorizeSite(createSiteRegistry(c.env), eventData.siteId, {
+    origin,
+    ingestKey: c.req.header("x-site-key"),
+  });
+  if (!access.ok) {
+    return c.json({ error: access.error }, access.status);
+  }
+  for (const [name, value] of Object.entries(getSiteCorsHeaders(access.site, origin))) {
+    c.header(name, value);
+  }
+
+  const limits = getIngestLimits(access.site);
+  if (body.bytes > limits.maxBodyBytes) {
+    return c.json({ error: `Payload exceeds ${limits.maxBodyBytes} bytes` }, 413);
+  }
+  const propertiesError = checkPropertyLimits(eventData.properties, limits);
+  if (propertiesError) {
+    return c.json({
+      error: "Invalid event payload",
+      errors: [{ code: "invalid_field", field: "properties", message: propertiesError }],
+    }, 400);
+  }
+
+  const rateLimit = await checkRequestRateLimits(c, access.site, 1);
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(c, rateLimit.retryAfterSeconds);
   }
 
   // Get common data from query parameters or empty object if none
-  const queryParams = eventData.queryParams || {};
+  const queryParams = { ...eventData.queryParams };
   
   // Add the site ID to query params for common data collection
   queryParams.s = eventData.siteId;
   
-  // Get common analytics data without pageview specific tracking
-  const { analyticsData } = collectCommonAnalyticsData(c, queryParams, false);
-  
-  // Merge with event-specific data
-  const fullEventData = {
-    ...analyticsData,
-    event_data: {
-      ...analyticsData.event_data,
-      event_name: eventData.eventName,
-      event_category: eventData.eventCategory || "interaction",
-      event_label: eventData.eventLabel || "",
-      event_value: eventData.eventValue || 0,
+  const visitor = await getRequestVisitor(c, access.site);
+  const context = getRecordContext(c, access.site, visitor);
+
+  // Acknowledge bot traffic without sending it on
+  if (context.userAgentInfo.isBot && shouldDropBotTraffic(access.site)) {
+    return c.json({ success: true }, 200);
+  }
+
+  const eventId = eventData.eventId;
+  const record = buildRecord(context, {
+    event: {
+      type: "event",
+      eventId,
+      eventName: eventData.eventName,
+      eventCategory: eventData.eventCategory,
+      eventLabel: eventData.eventLabel,
+      eventValue: eventData.eventValue,
+      properties: eventData.properties,
+      nonInteraction: eventData.nonInteraction,
     },
-    properties: eventData.properties || {},
-    data_type: "event",
-  };
+    params: queryParams,
+  });
+
+  // Acknowledge a retried event without recording it twice. The record is
+  // built first, so a failure building it doesn't claim the ID.
+  const dedupeStore = createDedupeStore(c.env);
+  if (eventId && !(await claimIds(dedupeStore, eventData.siteId, [eventId])).has(eventId)) {
+    return c.json({ success: true, eventId, status: "duplicate" }, 200);
+  }
 
-  // Send to analytics pipeline
-  await c.env.ANALYTICS_PIPELINE.send([fullEventData]);
+  // Buffer for delivery to the analytics pipeline
+  if (!(await bufferRecords(c, [record]))) {
+    if (eventId) await releaseIds(dedupeStore, eventData.siteId, [eventId]);
+    return c.json({ error: "Failed to accept event, try again later" }, 503);
+  }
 
-  // Return success response
-  return c.json({ success: true }, 200);
+  // Accepted: delivery to the pipeline happens in the background
+  return c.json({ success: true, eventId: record.event_data.event_id, status: "accepted" }, 202);
 });
 
 // CORS preflight for the event endpoint
-app.options("/event", (c) => {
-  return new Response(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
-      "Access-Control-Max-Age": "86400",
-    },
-  });
-});
+app.options("/event", handlePreflight);
+
+// Read-only stats over stored events
+app.route("/api/stats", statsRoutes);
 
 app.all("*", async (c) => {
   return c.env.ASSETS.fetch(c.req.raw);
 });
 
+export { RateLimiterObject } from "./lib/rate-limit";
+
 export default {
   fetch: app.fetch,
+  queue: handleQueueBatch,
 };
\ No newline at end of file
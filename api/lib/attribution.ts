@@ -0,0 +1,148 @@
+// Traffic source of a record, derived from campaign params and the referrer
+export interface Attribution {
+  source: string;
+  medium: string;
+  campaign: string | null;
+  term: string | null;
+  content: string | null;
+  click_id_type: string | null;
+}
+
+// Ad click IDs and the source/medium they imply, checked in order
+const CLICK_IDS: Array<[string, string, string]> = [
+  ["gclid", "google", "cpc"],
+  ["gbraid", "google", "cpc"],
+  ["wbraid", "google", "cpc"],
+  ["msclkid", "bing", "cpc"],
+  // Facebook adds fbclid to all outbound links, not only ads
+  ["fbclid", "facebook", "social"],
+];
+
+const SEARCH_ENGINES: Array<[RegExp, string]> = [
+  [/(^|\.)google\.[a-z.]+$/, "google"],
+  [/(^|\.)bing\.com$/, "bing"],
+  [/(^|\.)duckduckgo\.com$/, "duckduckgo"],
+  [/(^|\.)search\.yahoo\.[a-z.]+$/, "yahoo"],
+  [/(^|\.)baidu\.com$/, "baidu"],
+  [/(^|\.)yandex\.[a-z.]+$/, "yandex"],
+  [/(^|\.)ecosia\.org$/, "ecosia"],
+  [/(^|\.)search\.brave\.com$/, "brave"],
+  [/(^|\.)startpage\.com$/, "startpage"],
+  [/(^|\.)qwant\.com$/, "qwant"],
+  [/(^|\.)naver\.com$/, "naver"],
+  [/(^|\.)seznam\.cz$/, "seznam"],
+  [/(^|\.)ask\.com$/, "ask"],
+  [/(^|\.)perplexity\.ai$/, "perplexity"],
+  [/(^|\.)chatgpt\.com$/, "chatgpt"],
+];
+
+const SOCIAL_NETWORKS: Array<[RegExp, string]> = [
+  [/(^|\.)facebook\.com$|^fb\.me$/, "facebook"],
+  [/(^|\.)instagram\.com$/, "instagram"],
+  [/^t\.co$|(^|\.)twitter\.com$|(^|\.)x\.com$/, "twitter"],
+  [/(^|\.)linkedin\.com$|^lnkd\.in$/, "linkedin"],
+  [/(^|\.)reddit\.com$/, "reddit"],
+  [/(^|\.)pinterest\.[a-z.]+$/, "pinterest"],
+  [/(^|\.)youtube\.com$|^youtu\.be$/, "youtube"],
+  [/(^|\.)tiktok\.com$/, "tiktok"],
+  [/^news\.ycombinator\.com$/, "hacker news"],
+  [/(^|\.)threads\.net$/, "threads"],
+  [/^bsky\.app$/, "bluesky"],
+  [/(^|\.)mastodon\.social$/, "mastodon"],
+  [/(^|\.)quora\.com$/, "quora"],
+  [/(^|\.)tumblr\.com$/, "tumblr"],
+  [/(^|\.)vk\.com$/, "vk"],
+  [/(^|\.)weibo\.com$/, "weibo"],
+];
+
+const EMAIL_PROVIDERS: Array<[RegExp, string]> = [
+  [/^mail\.google\.com$/, "gmail"],
+  [/^outlook\.(live|office|office365)\.com$/, "outlook"],
+  [/^mail\.yahoo\.[a-z.]+$/, "yahoo mail"],
+  [/(^|\.)mail\.proton\.me$/, "proton mail"],
+];
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch (e) {
+    return null;
+  }
+}
+
+function matchHost(hostname: string, table: Array<[RegExp, string]>): string | null {
+  for (const [pattern, name] of table) {
+    if (pattern.test(hostname)) return name;
+  }
+  return null;
+}
+
+function param(params: Record<string, string>, name: string): string | null {
+  const value = params[name]?.trim();
+  return value ? value : null;
+}
+
+// Classify a record's traffic source. `siteHosts` are the site's own
+// hostnames, used to recognise internal navigation.
+export function getAttribution(
+  params: Record<string, string>,
+  referrer: string,
+  siteHosts: string[],
+): Attribution {
+  const attribution: Attribution = {
+    source: "direct",
+    medium: "none",
+    campaign: param(params, "utm_campaign"),
+    term: param(params, "utm_term"),
+    content: param(params, "utm_content"),
+    click_id_type: null,
+  };
+
+  const referrerHost = referrer && referrer !== "NA" ? getHostname(referrer) : null;
+  const ownHosts = siteHosts.map((host) => host.toLowerCase().replace(/^www\./, ""));
+
+  if (referrerHost) {
+    if (ownHosts.includes(referrerHost)) {
+      attribution.source = "internal";
+      attribution.medium = "internal";
+    } else {
+      const search = matchHost(referrerHost, SEARCH_ENGINES);
+      const social = search ? null : matchHost(referrerHost, SOCIAL_NETWORKS);
+      const email = search || social ? null : matchHost(referrerHost, EMAIL_PROVIDERS);
+      attribution.source = search || social || email || referrerHost;
+      attribution.medium = search ? "organic" : social ? "social" : email ? "email" : "referral";
+    }
+  }
+
+  // Ad click IDs override the referrer
+  for (const [name, source, medium] of CLICK_IDS) {
+    if (param(params, name)) {
+      attribution.source = source;
+      attribution.medium = medium;
+      attribution.click_id_type = name;
+      break;
+    }
+  }
+
+  // Explicit UTM tags override everything else
+  const utmSource = param(params, "utm_source");
+  const utmMedium = param(params, "utm_medium");
+  if (utmSource) {
+    attribution.source = utmSource.toLowerCase();
+    attribution.medium = utmMedium ? utmMedium.toLowerCase() : "(not set)";
+  } else if (utmMedium) {
+    attribution.medium = utmMedium.toLowerCase();
+  }
+
+  return attribution;
+}
+
+// Hostnames that belong to a site: its allowed origins plus the page's own domain
+export function getSiteHosts(allowedOrigins: string[], pageDomain?: string): string[] {
+  const hosts = allowedOrigins
+    .filter((origin) => origin !== "*")
+    .map((origin) => getHostname(origin))
+    .filter((host): host is string => host !== null);
+  if (pageDomain) hosts.push(pageDomain);
+  return hosts;
+}
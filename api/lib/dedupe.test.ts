@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { InMemoryDedupeStore } from "./dedupe";
+
+describe("InMemoryDedupeStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims each ID once", async () => {
+    const store = new InMemoryDedupeStore();
+    expect(await store.claim("site", ["a", "b"])).toEqual(new Set(["a", "b"]));
+    expect(await store.claim("site", ["b", "c"])).toEqual(new Set(["c"]));
+  });
+
+  it("keeps IDs separate per site", async () => {
+    const store = new InMemoryDedupeStore();
+    await store.claim("one", ["a"]);
+    expect(await store.claim("two", ["a"])).toEqual(new Set(["a"]));
+  });
+
+  it("lets released IDs be claimed again", async () => {
+    const store = new InMemoryDedupeStore();
+    await store.claim("site", ["a", "b"]);
+    await store.release("site", ["a"]);
+    expect(await store.claim("site", ["a", "b"])).toEqual(new Set(["a"]));
+  });
+
+  it("forgets IDs once the window has passed", async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryDedupeStore(1000);
+    await store.claim("site", ["a"]);
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.claim("site", ["a"])).toEqual(new Set());
+
+    vi.advanceTimersByTime(1001);
+    expect(await store.claim("site", ["a"])).toEqual(new Set(["a"]));
+  });
+});
@@ -0,0 +1,123 @@
+import type { Database, Env } from "../types";
+import { MAX_EVENT_AGE_MS } from "./event-time";
+
+// How long an event ID is remembered for deduplication. Events sent by beacon
+// stay stored in the tracker and are sent again on a later visit, up to its
+// default stored event lifetime, so IDs are kept at least that long.
+export const DEDUPE_WINDOW_MS = MAX_EVENT_AGE_MS;
+
+// How long a purchase's order ID is remembered. Order confirmation pages get
+// revisited long after events stop being retried.
+export const ORDER_DEDUPE_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+
+// D1 table holding claimed IDs, keyed by site and ID
+export interface DedupeTable {
+  name: string;
+  idColumn: string;
+}
+
+const EVENT_IDS_TABLE: DedupeTable = { name: "event_ids", idColumn: "event_id" };
+const ORDER_IDS_TABLE: DedupeTable = { name: "order_ids", idColumn: "order_id" };
+
+// Tracks which client event IDs have already been accepted for a site
+export interface DedupeStore {
+  // Claim event IDs, returning the ones not seen within the window
+  claim(siteId: string, eventIds: string[]): Promise<Set<string>>;
+  // Forget claimed IDs, e.g. when the events couldn't be buffered after all
+  release(siteId: string, eventIds: string[]): Promise<void>;
+}
+
+// Dedupe store backed by a table in D1, event_ids by default
+export class D1DedupeStore implements DedupeStore {
+  constructor(
+    private readonly db: Database,
+    private readonly windowMs = DEDUPE_WINDOW_MS,
+    private readonly table = EVENT_IDS_TABLE,
+  ) {}
+
+  async claim(siteId: string, eventIds: string[]): Promise<Set<string>> {
+    if (eventIds.length === 0) return new Set();
+
+    const { name, idColumn } = this.table;
+    const now = new Date();
+    const expiredBefore = new Date(now.getTime() - this.windowMs).toISOString();
+    const results = await this.db.batch([
+      this.db.prepare(`DELETE FROM ${name} WHERE seen_at < ?`).bind(expiredBefore),
+      ...eventIds.map((eventId) =>
+        this.db
+          .prepare(`INSERT OR IGNORE INTO ${name} (site_id, ${idColumn}, seen_at) VALUES (?, ?, ?)`)
+          .bind(siteId, eventId, now.toISOString()),
+      ),
+    ]);
+
+    // An ignored insert means the ID was already claimed
+    const claimed = new Set<string>();
+    eventIds.forEach((eventId, index) => {
+      if (results[index + 1]?.meta.changes) {
+        claimed.add(eventId);
+      }
+    });
+    return claimed;
+  }
+
+  async release(siteId: string, eventIds: string[]): Promise<void> {
+    if (eventIds.length === 0) return;
+    const { name, idColumn } = this.table;
+    await this.db.batch(
+      eventIds.map((eventId) =>
+        this.db.prepare(`DELETE FROM ${name} WHERE site_id = ? AND ${idColumn} = ?`).bind(siteId, eventId),
+      ),
+    );
+  }
+}
+
+// In-memory dedupe store, used for local development and tests. It only
+// sees events handled by the same isolate.
+export class InMemoryDedupeStore implements DedupeStore {
+  private seen = new Map<string, number>();
+
+  constructor(private readonly windowMs = DEDUPE_WINDOW_MS) {}
+
+  async claim(siteId: string, eventIds: string[]): Promise<Set<string>> {
+    const now = Date.now();
+    for (const [key, seenAt] of this.seen) {
+      if (now - seenAt > this.windowMs) this.seen.delete(key);
+    }
+
+    const claimed = new Set<string>();
+    for (const eventId of eventIds) {
+      const key = `${siteId}:${eventId}`;
+      if (!this.seen.has(key)) {
+        this.seen.set(key, now);
+        claimed.add(eventId);
+      }
+    }
+    return claimed;
+  }
+
+  async release(siteId: string, eventIds: string[]): Promise<void> {
+    for (const eventId of eventIds) {
+      this.seen.delete(`${siteId}:${eventId}`);
+    }
+  }
+}
+
+const inMemoryDedupeStore = new InMemoryDedupeStore();
+const inMemoryOrderStore = new InMemoryDedupeStore(ORDER_DEDUPE_WINDOW_MS);
+
+// Get the dedupe store for the current environment
+export function createDedupeStore(env: Env): DedupeStore {
+  if (env.DB) {
+    return new D1DedupeStore(env.DB);
+  }
+  return inMemoryDedupeStore;
+}
+
+// Get the store of purchase order IDs for the current environment. It has
+// the same interface as the event ID store, with order IDs for event IDs.
+export function createOrderDedupeStore(env: Env): DedupeStore {
+  if (env.DB) {
+    return new D1DedupeStore(env.DB, ORDER_DEDUPE_WINDOW_MS, ORDER_IDS_TABLE);
+  }
+  return inMemoryOrderStore;
+}
@@ -0,0 +1,142 @@
+import type { Env } from "../types";
+import { storeEvents } from "./event-store";
+import type { AnalyticsRecord } from "./records";
+
+// Queue messages carry one record each
+export interface EventsQueue {
+  sendBatch(messages: Array<{ body: AnalyticsRecord }>): Promise<void>;
+}
+
+// The subset of a Queues message batch used by the consumer
+export interface QueueMessage {
+  body: AnalyticsRecord;
+  attempts: number;
+  ack(): void;
+  retry(options?: { delaySeconds?: number }): void;
+}
+
+export interface QueueBatch {
+  messages: readonly QueueMessage[];
+}
+
+interface WaitUntil {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Accepts records from the ingest routes and owns their delivery
+export interface EventBuffer {
+  enqueue(records: AnalyticsRecord[]): Promise<void>;
+}
+
+// Queues limits sendBatch to 100 messages
+const QUEUE_BATCH_LIMIT = 100;
+const MAX_ATTEMPTS = 5;
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+
+// Exponential backoff between delivery attempts: 10s, 20s, 40s, ...
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(5 * 2 ** Math.max(1, attempts), MAX_RETRY_DELAY_SECONDS);
+}
+
+// Backoff for in-memory delivery: 1s, 2s, 4s, 8s. waitUntil only keeps the
+// Worker alive for 30 seconds after the response, so every attempt has to
+// fit in that time.
+function getInMemoryRetryDelayMs(attempts: number): number {
+  return 1000 * 2 ** (attempts - 1);
+}
+
+// Records the in-memory buffer gave up on. Kept at module level, like the
+// in-memory dedupe store, so they outlive the request and last as long as
+// the isolate.
+export const inMemoryDeadLetters: AnalyticsRecord[][] = [];
+
+// Send records to the analytics pipeline, then keep a queryable copy for the
+// stats API. A failed copy is logged rather than retried, so the pipeline
+// never receives the same records twice.
+export async function deliverRecords(env: Env, records: AnalyticsRecord[]): Promise<void> {
+  await env.ANALYTICS_PIPELINE.send(records);
+
+  if (env.DB) {
+    try {
+      await storeEvents(env.DB, records);
+    } catch (error) {
+      console.error("Failed to store events for querying", error);
+    }
+  }
+}
+
+// Buffer backed by a Cloudflare Queue. Retries and dead-lettering are
+// handled by the queue consumer below and the queue's configuration.
+export class QueueEventBuffer implements EventBuffer {
+  constructor(private readonly queue: EventsQueue) {}
+
+  async enqueue(records: AnalyticsRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += QUEUE_BATCH_LIMIT) {
+      const chunk = records.slice(i, i + QUEUE_BATCH_LIMIT);
+      await this.queue.sendBatch(chunk.map((body) => ({ body })));
+    }
+  }
+}
+
+// In-memory buffer used when no queue is bound, e.g. in local development
+// and tests. Delivery runs after the response with a shorter backoff, and
+// records that keep failing are kept in `deadLetters`.
+export class InMemoryEventBuffer implements EventBuffer {
+  constructor(
+    private readonly env: Env,
+    private readonly ctx: WaitUntil,
+    readonly deadLetters: AnalyticsRecord[][] = inMemoryDeadLetters,
+    private readonly sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)),
+  ) {}
+
+  async enqueue(records: AnalyticsRecord[]): Promise<void> {
+    this.ctx.waitUntil(this.deliver(records));
+  }
+
+  private async deliver(records: AnalyticsRecord[]): Promise<void> {
+    for (let attempts = 1; attempts <= MAX_ATTEMPTS; attempts++) {
+      try {
+        await deliverRecords(this.env, records);
+        return;
+      } catch (error) {
+        console.error(`Pipeline delivery failed (attempt ${attempts}/${MAX_ATTEMPTS})`, error);
+        if (attempts < MAX_ATTEMPTS) {
+          await this.sleep(getInMemoryRetryDelayMs(attempts));
+        }
+      }
+    }
+
+    this.deadLetters.push(records);
+    console.error(`Dead-lettered ${records.length} records after ${MAX_ATTEMPTS} attempts`);
+  }
+}
+
+// Create the event buffer for the current environment
+export function createEventBuffer(env: Env, ctx: WaitUntil): EventBuffer {
+  if (env.EVENTS_QUEUE) {
+    return new QueueEventBuffer(env.EVENTS_QUEUE);
+  }
+  return new InMemoryEventBuffer(env, ctx);
+}
+
+// Queue consumer: deliver a batch of records to the pipeline, retrying every
+// message with backoff if it fails. After the queue's max_retries, messages
+// move to its dead letter queue.
+export async function handleQueueBatch(batch: QueueBatch, env: Env): Promise<void> {
+  try {
+    await deliverRecords(
+      env,
+      batch.messages.map((message) => message.body),
+    );
+  } catch (error) {
+    console.error(`Pipeline delivery failed for ${batch.messages.length} records`, error);
+    for (const message of batch.messages) {
+      message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
+    }
+    return;
+  }
+
+  for (const message of batch.messages) {
+    message.ack();
+  }
+}
@@ -0,0 +1,89 @@
+import type { Database } from "../types";
+import type { AnalyticsRecord } from "./records";
+
+// Columns of the events table that records are flattened into
+const EVENT_COLUMNS = [
+  "site_id",
+  "timestamp",
+  "received_at",
+  "data_type",
+  "event_id",
+  "event_name",
+  "visitor_id",
+  "user_id",
+  "session_id",
+  "path",
+  "referrer",
+  "source",
+  "medium",
+  "campaign",
+  "browser",
+  "os",
+  "device",
+  "country",
+  "event_value",
+  "record",
+] as const;
+
+type EventRow = Record<(typeof EVENT_COLUMNS)[number], string | number | null>;
+
+function toEventRow(record: AnalyticsRecord): EventRow {
+  const session = record.session_data || {};
+  const event = record.event_data || {};
+  const referrer = record.referrer && record.referrer !== "NA" ? record.referrer : null;
+
+  return {
+    site_id: session.site_id,
+    timestamp: record.timestamp,
+    received_at: record.received_at ?? null,
+    data_type: record.data_type,
+    event_id: event.event_id ?? null,
+    event_name: event.event_name ?? null,
+    visitor_id: session.visitor_id ?? null,
+    user_id: session.user_id ?? null,
+    session_id: session.session_id ?? null,
+    path: record.page?.path ?? null,
+    referrer,
+    source: record.attribution?.source ?? null,
+    medium: record.attribution?.medium ?? null,
+    campaign: record.attribution?.campaign ?? null,
+    browser: record.device_info?.browser ?? null,
+    os: record.device_info?.os ?? null,
+    device: record.device_info?.device ?? null,
+    country: record.geo?.country ?? null,
+    event_value: typeof event.event_value === "number" ? event.event_value : null,
+    record: JSON.stringify(record),
+  };
+}
+
+const CONVERSION_SQL =
+  "INSERT INTO conversions (site_id, goal_id, event_id, visitor_id, session_id, timestamp, value) VALUES (?, ?, ?, ?, ?, ?, ?)";
+
+// Store processed records in the events table, and their goal conversions
+// in the conversions table
+export async function storeEvents(db: Database, records: AnalyticsRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const sql = `INSERT INTO events (${EVENT_COLUMNS.join(", ")}) VALUES (${EVENT_COLUMNS.map(() => "?").join(", ")})`;
+  const statements = records.flatMap((record) => {
+    const row = toEventRow(record);
+    return [
+      db.prepare(sql).bind(...EVENT_COLUMNS.map((column) => row[column])),
+      ...(record.goals || []).map((conversion) =>
+        db
+          .prepare(CONVERSION_SQL)
+          .bind(
+            row.site_id,
+            conversion.goal_id,
+            row.event_id,
+            row.visitor_id,
+            row.session_id,
+            row.timestamp,
+            conversion.value,
+          ),
+      ),
+    ];
+  });
+
+  await db.batch(statements);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { estimateClockSkew, MAX_EVENT_AGE_MS, MAX_FUTURE_DRIFT_MS, resolveEventTime } from "./event-time";
+
+const receivedAt = new Date("2026-10-19T12:00:00.000Z");
+const received = receivedAt.getTime();
+
+describe("estimateClockSkew", () => {
+  it("is the server clock minus the client's send time", () => {
+    expect(estimateClockSkew(received - 5000, receivedAt)).toBe(5000);
+    expect(estimateClockSkew(String(received + 2000), receivedAt)).toBe(-2000);
+  });
+
+  it("is zero without a usable send time", () => {
+    expect(estimateClockSkew(undefined, receivedAt)).toBe(0);
+    expect(estimateClockSkew("", receivedAt)).toBe(0);
+    expect(estimateClockSkew("soon", receivedAt)).toBe(0);
+    expect(estimateClockSkew(0, receivedAt)).toBe(0);
+  });
+});
+
+describe("resolveEventTime", () => {
+  it("corrects the client time by the skew", () => {
+    // Client clock an hour slow, event a minute before sending
+    const skew = 60 * 60 * 1000;
+    const result = resolveEventTime(received - skew - 60_000, skew, receivedAt);
+    expect(result).toEqual({ eventTime: new Date(received - 60_000), skewMs: skew, flag: null });
+  });
+
+  it("uses the received time without a client time", () => {
+    expect(resolveEventTime(undefined, 0, receivedAt)).toEqual({ eventTime: receivedAt, skewMs: 0, flag: null });
+  });
+
+  it("clamps times slightly ahead of receipt without flagging them", () => {
+    const result = resolveEventTime(received + MAX_FUTURE_DRIFT_MS, 0, receivedAt);
+    expect(result).toEqual({ eventTime: receivedAt, skewMs: 0, flag: null });
+  });
+
+  it("clamps and flags times far in the future", () => {
+    const result = resolveEventTime(received + MAX_FUTURE_DRIFT_MS + 1, 0, receivedAt);
+    expect(result).toEqual({ eventTime: receivedAt, skewMs: 0, flag: "future" });
+  });
+
+  it("clamps and flags times older than the maximum event age", () => {
+    const result = resolveEventTime(received - MAX_EVENT_AGE_MS - 1, 0, receivedAt);
+    expect(result).toEqual({ eventTime: new Date(received - MAX_EVENT_AGE_MS), skewMs: 0, flag: "past" });
+  });
+
+  it("keeps times within the maximum event age", () => {
+    const result = resolveEventTime(received - MAX_EVENT_AGE_MS, 0, receivedAt);
+    expect(result.flag).toBeNull();
+    expect(result.eventTime.getTime()).toBe(received - MAX_EVENT_AGE_MS);
+  });
+});
@@ -0,0 +1,54 @@
+// Events timed further ahead of the server than this, after correcting for
+// clock skew, are flagged. Anything ahead at all is clamped to receipt.
+export const MAX_FUTURE_DRIFT_MS = 60 * 1000;
+
+// Events older than this are clamped and flagged. It matches how long the
+// tracker keeps events queued offline by default.
+export const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type EventTimeFlag = "future" | "past";
+
+export interface EventTime {
+  // Client event time corrected for clock skew and clamped to a sane range
+  eventTime: Date;
+  // Server clock minus client clock, in milliseconds
+  skewMs: number;
+  // Set when the event time was clamped because it was too far out
+  flag: EventTimeFlag | null;
+}
+
+function toMillis(value: number | string | undefined): number | null {
+  if (value === undefined || value === "") return null;
+  const millis = Number(value);
+  return Number.isFinite(millis) && millis > 0 ? millis : null;
+}
+
+// Estimate how far the client's clock is behind the server's, from when the
+// client says it sent the request. Network latency counts as skew, which
+// is small next to the clock errors this corrects.
+export function estimateClockSkew(sentAt: number | string | undefined, receivedAt: Date): number {
+  const sentAtMillis = toMillis(sentAt);
+  return sentAtMillis === null ? 0 : receivedAt.getTime() - sentAtMillis;
+}
+
+// Work out when an event happened on the server's clock
+export function resolveEventTime(
+  clientTimestamp: number | string | undefined,
+  skewMs: number,
+  receivedAt: Date,
+): EventTime {
+  const clientMillis = toMillis(clientTimestamp);
+  if (clientMillis === null) {
+    return { eventTime: receivedAt, skewMs, flag: null };
+  }
+
+  const corrected = clientMillis + skewMs;
+  const received = receivedAt.getTime();
+  if (corrected > received) {
+    return { eventTime: receivedAt, skewMs, flag: corrected - received > MAX_FUTURE_DRIFT_MS ? "future" : null };
+  }
+  if (received - corrected > MAX_EVENT_AGE_MS) {
+    return { eventTime: new Date(received - MAX_EVENT_AGE_MS), skewMs, flag: "past" };
+  }
+  return { eventTime: new Date(corrected), skewMs, flag: null };
+}
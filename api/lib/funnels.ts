@@ -0,0 +1,154 @@
+import type { Database } from "../types";
+import { buildWhere, type StatsQuery } from "./stats";
+
+// A funnel step: a pageview of a path pattern, where * matches any run of
+// characters, or a custom event by name. Ecommerce events match by action,
+// e.g. event:add_to_cart.
+export interface FunnelStep {
+  type: "pageview" | "event";
+  value: string;
+}
+
+// Whether a journey through the funnel is a session or everything a user did
+export type FunnelGrouping = "session" | "user";
+
+export interface FunnelQuery {
+  steps: FunnelStep[];
+  by: FunnelGrouping;
+}
+
+export type FunnelQueryResult = { ok: true; funnel: FunnelQuery } | { ok: false; error: string };
+
+const MIN_STEPS = 2;
+const MAX_STEPS = 10;
+
+// Journeys are grouped the same way as visits elsewhere: records without a
+// session or user ID fall back to the visitor hash
+const JOURNEY_COLUMNS: Record<FunnelGrouping, string> = {
+  session: "COALESCE(session_id, visitor_id)",
+  user: "COALESCE(user_id, visitor_id)",
+};
+
+// Parse funnel steps given as "pageview:/pricing" or "event:signup_started"
+export function parseFunnelQuery(steps: string[], by = "session"): FunnelQueryResult {
+  if (steps.length < MIN_STEPS || steps.length > MAX_STEPS) {
+    return { ok: false, error: `A funnel needs between ${MIN_STEPS} and ${MAX_STEPS} steps` };
+  }
+  if (by !== "session" && by !== "user") {
+    return { ok: false, error: "Invalid grouping: use session or user" };
+  }
+
+  const parsed: FunnelStep[] = [];
+  for (const step of steps) {
+    const separator = step.indexOf(":");
+    const type = step.slice(0, separator);
+    const value = step.slice(separator + 1);
+    if (separator === -1 || (type !== "pageview" && type !== "event") || !value) {
+      return { ok: false, error: `Invalid step "${step}": use pageview:<path> or event:<name>` };
+    }
+    parsed.push({ type, value });
+  }
+
+  return { ok: true, funnel: { steps: parsed, by } };
+}
+
+// The path without its query string or fragment, as goal patterns match it
+const BARE_PATH =
+  "substr(substr(path, 1, instr(path || '?', '?') - 1), 1, instr(path || '#', '#') - 1)";
+
+// SQL GLOB pattern for a path pattern. GLOB is case-sensitive like goal
+// matching, and its other wildcards are escaped so only * matches anything.
+function toGlobPattern(pattern: string): string {
+  return pattern.replace(/[?[]/g, "[$&]");
+}
+
+function toPercentage(count: number, total: number): number {
+  return total ? Math.round((1000 * count) / total) / 10 : 0;
+}
+
+interface FunnelStepRow {
+  step: number;
+  count: number;
+  median_from_previous: number | null;
+  median_from_first: number | null;
+}
+
+// Journeys reaching each step of a funnel in order, with conversion from the
+// previous step and median times in seconds. Other records may come between
+// steps, and each journey counts once per step.
+//
+// Each step is a CTE holding, per journey, the first time it matched after
+// the journey reached the previous step, so only one row per step comes back.
+export async function getFunnel(db: Database, query: StatsQuery, funnel: FunnelQuery) {
+  const where = buildWhere(query);
+  const journey = JOURNEY_COLUMNS[funnel.by];
+  const stepClauses = funnel.steps.map((step) =>
+    step.type === "event"
+      ? { sql: "data_type IN ('event', 'ecommerce') AND event_name = ?", param: step.value }
+      : { sql: `data_type = 'pageview' AND ${BARE_PATH} GLOB ?`, param: toGlobPattern(step.value) },
+  );
+
+  const stepTables = stepClauses.map((clause, i) =>
+    i === 0
+      ? `step1 AS (
+        SELECT ${journey} AS journey, MIN(timestamp) AS first_at, NULL AS previous_at, MIN(timestamp) AS reached_at
+        FROM events
+        WHERE ${where.sql} AND ${clause.sql}
+        GROUP BY journey
+      )`
+      : `step${i + 1} AS (
+        SELECT previous.journey, previous.first_at, previous.reached_at AS previous_at, MIN(timestamp) AS reached_at
+        FROM step${i} AS previous
+        JOIN events ON ${journey} = previous.journey AND timestamp > previous.reached_at
+        WHERE ${where.sql} AND ${clause.sql}
+        GROUP BY previous.journey
+      )`,
+  );
+  const reachedRows = stepClauses.map(
+    (_, i) =>
+      `SELECT ${i + 1} AS step,
+        (julianday(reached_at) - julianday(previous_at)) * 86400 AS from_previous,
+        (julianday(reached_at) - julianday(first_at)) * 86400 AS from_first
+      FROM step${i + 1}`,
+  );
+
+  // Medians average the middle one or two durations of each step
+  const { results } = await db
+    .prepare(
+      `WITH ${stepTables.join(",\n      ")},
+      reached AS (${reachedRows.join("\n      UNION ALL ")}),
+      ranked AS (
+        SELECT step, from_previous, from_first,
+          ROW_NUMBER() OVER (PARTITION BY step ORDER BY from_previous) AS previous_rank,
+          ROW_NUMBER() OVER (PARTITION BY step ORDER BY from_first) AS first_rank,
+          COUNT(*) OVER (PARTITION BY step) AS count
+        FROM reached
+      )
+      SELECT step, MAX(count) AS count,
+        AVG(CASE WHEN previous_rank IN ((count + 1) / 2, (count + 2) / 2) THEN from_previous END) AS median_from_previous,
+        AVG(CASE WHEN first_rank IN ((count + 1) / 2, (count + 2) / 2) THEN from_first END) AS median_from_first
+      FROM ranked
+      GROUP BY step`,
+    )
+    .bind(...stepClauses.flatMap((clause) => [...where.params, clause.param]))
+    .all<FunnelStepRow>();
+
+  const rows = funnel.steps.map((_, i) => results.find((row) => row.step === i + 1));
+  const counts = rows.map((row) => row?.count ?? 0);
+  const roundSeconds = (value: number | null | undefined) => (value == null ? null : Math.round(value));
+  return {
+    by: funnel.by,
+    steps: funnel.steps.map((step, i) => ({
+      step: i + 1,
+      type: step.type,
+      value: step.value,
+      count: counts[i],
+      // Percentage of journeys from the previous step, and from the first
+      conversion_rate: i === 0 ? 100 : toPercentage(counts[i], counts[i - 1]),
+      overall_rate: toPercentage(counts[i], counts[0]),
+      median_time_from_previous: i === 0 ? null : roundSeconds(rows[i]?.median_from_previous),
+    })),
+    completed: counts[counts.length - 1],
+    median_time_to_convert: roundSeconds(rows[rows.length - 1]?.median_from_first),
+  };
+}
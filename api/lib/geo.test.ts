@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { getGeoInfo, type RequestGeo } from "./geo";
+
+// A request.cf object as Cloudflare sends it, trimmed to the geo fields
+const cf: RequestGeo = {
+  country: "DE",
+  continent: "EU",
+  region: "Berlin",
+  regionCode: "BE",
+  city: "Berlin",
+  postalCode: "10115",
+  metroCode: "0",
+  timezone: "Europe/Berlin",
+  asn: 3320,
+  asOrganization: "Deutsche Telekom AG",
+  colo: "FRA",
+};
+
+describe("getGeoInfo", () => {
+  it("stores only country, continent and colo by default", () => {
+    expect(getGeoInfo(cf)).toEqual({ country: "DE", continent: "EU", colo: "FRA" });
+  });
+
+  it("adds region, timezone and network at region detail", () => {
+    expect(getGeoInfo(cf, "region")).toEqual({
+      country: "DE",
+      continent: "EU",
+      colo: "FRA",
+      region: "Berlin",
+      region_code: "BE",
+      timezone: "Europe/Berlin",
+      asn: 3320,
+      as_organization: "Deutsche Telekom AG",
+    });
+  });
+
+  it("adds city, postal code and metro code at city detail", () => {
+    expect(getGeoInfo(cf, "city")).toMatchObject({
+      region: "Berlin",
+      city: "Berlin",
+      postal_code: "10115",
+      metro_code: "0",
+    });
+  });
+
+  it("treats Cloudflare's XX country as unknown", () => {
+    expect(getGeoInfo({ ...cf, country: "XX" }).country).toBeNull();
+  });
+
+  it("returns nulls without a cf object, as in local development", () => {
+    expect(getGeoInfo(undefined, "city")).toEqual({
+      country: null,
+      continent: null,
+      colo: null,
+      region: null,
+      region_code: null,
+      timezone: null,
+      asn: null,
+      as_organization: null,
+      city: null,
+      postal_code: null,
+      metro_code: null,
+    });
+  });
+
+  it("fills missing fields with null", () => {
+    expect(getGeoInfo({ country: "US" }, "region")).toMatchObject({
+      country: "US",
+      continent: null,
+      region: null,
+      asn: null,
+    });
+  });
+});
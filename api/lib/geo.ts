@@ -0,0 +1,59 @@
+// How much location detail is stored for each record
+export type GeoDetail = "country" | "region" | "city";
+
+// The subset of request.cf used for geo enrichment
+export interface RequestGeo {
+  country?: string;
+  continent?: string;
+  region?: string;
+  regionCode?: string;
+  city?: string;
+  postalCode?: string;
+  metroCode?: string;
+  timezone?: string;
+  asn?: number;
+  asOrganization?: string;
+  colo?: string;
+}
+
+export interface GeoInfo {
+  country: string | null;
+  continent: string | null;
+  colo: string | null;
+  region?: string | null;
+  region_code?: string | null;
+  timezone?: string | null;
+  asn?: number | null;
+  as_organization?: string | null;
+  city?: string | null;
+  postal_code?: string | null;
+  metro_code?: string | null;
+}
+
+// Build the geo block for a record from request.cf, limited to the given detail
+export function getGeoInfo(cf: RequestGeo | undefined, detail: GeoDetail = "country"): GeoInfo {
+  // Cloudflare reports "XX" when the country is unknown
+  const country = cf?.country && cf.country !== "XX" ? cf.country : null;
+
+  const geo: GeoInfo = {
+    country,
+    continent: cf?.continent || null,
+    colo: cf?.colo || null,
+  };
+
+  if (detail === "region" || detail === "city") {
+    geo.region = cf?.region || null;
+    geo.region_code = cf?.regionCode || null;
+    geo.timezone = cf?.timezone || null;
+    geo.asn = cf?.asn ?? null;
+    geo.as_organization = cf?.asOrganization || null;
+  }
+
+  if (detail === "city") {
+    geo.city = cf?.city || null;
+    geo.postal_code = cf?.postalCode || null;
+    geo.metro_code = cf?.metroCode || null;
+  }
+
+  return geo;
+}
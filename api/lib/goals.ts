@@ -0,0 +1,77 @@
+import type { AnalyticsRecord } from "./records";
+
+// A conversion goal for a site. Goals with an event name match custom
+// events, or ecommerce events by action such as "purchase", optionally only
+// on pages matching the path; goals with only a path match pageviews.
+export interface GoalDefinition {
+  id: string;
+  // Shown in reports, defaults to the ID
+  name?: string;
+  // Page path pattern, where * matches any run of characters, e.g. "/checkout/*/done"
+  path?: string;
+  eventName?: string;
+  // Property values the event must have. String values are patterns like path.
+  properties?: Record<string, string | number | boolean>;
+  // Revenue per conversion: the named event property's value, an ecommerce
+  // event's revenue, or a fixed amount
+  valueProperty?: string;
+  value?: number;
+}
+
+export interface GoalConversion {
+  goal_id: string;
+  value: number | null;
+}
+
+// Match a value against a pattern, where * matches any run of characters
+export function matchesPattern(pattern: string, value: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+function matchesProperties(
+  expected: GoalDefinition["properties"],
+  properties: Record<string, unknown>,
+): boolean {
+  return Object.entries(expected || {}).every(([name, expectedValue]) => {
+    const actual = properties[name];
+    if (typeof expectedValue === "string") {
+      return (typeof actual === "string" || typeof actual === "number") && matchesPattern(expectedValue, String(actual));
+    }
+    return actual === expectedValue;
+  });
+}
+
+function matchesGoal(goal: GoalDefinition, record: AnalyticsRecord): boolean {
+  // Paths are matched without their query string
+  const path = record.page.path.split(/[?#]/)[0];
+  if (goal.path && !matchesPattern(goal.path, path)) return false;
+
+  if (goal.eventName) {
+    return (
+      (record.data_type === "event" || record.data_type === "ecommerce") &&
+      record.event_data.event_name === goal.eventName &&
+      matchesProperties(goal.properties, record.properties)
+    );
+  }
+  return Boolean(goal.path) && record.data_type === "pageview";
+}
+
+function getGoalValue(goal: GoalDefinition, record: AnalyticsRecord): number | null {
+  if (goal.valueProperty) {
+    const value = Number(record.properties[goal.valueProperty]);
+    if (Number.isFinite(value)) return value;
+  }
+  return record.ecommerce?.revenue ?? goal.value ?? null;
+}
+
+// Find the goals a record converts on. Bot traffic never converts.
+export function matchGoals(goals: GoalDefinition[] | undefined, record: AnalyticsRecord): GoalConversion[] {
+  if (!goals || record.device_info.is_bot) return [];
+  return goals
+    .filter((goal) => goal.id && matchesGoal(goal, record))
+    .map((goal) => ({ goal_id: goal.id, value: getGoalValue(goal, record) }));
+}
@@ -0,0 +1,189 @@
+// Per-site privacy settings
+export interface PrivacySettings {
+  // How client IPs are stored: truncated to a network prefix (the default) or dropped
+  ipAddress?: "truncate" | "drop";
+  // Extra query parameter names to strip, on top of the built-in PII list
+  stripQueryParams?: string[];
+  // Query parameter names to keep even if they are on the built-in PII list
+  keepQueryParams?: string[];
+}
+
+// Visitor identity after privacy rules have been applied
+export interface VisitorPrivacy {
+  ip: string | null;
+  visitorId: string;
+}
+
+// Query parameter names that commonly carry personal data or credentials
+const PII_QUERY_PARAMS = new Set([
+  "email",
+  "e-mail",
+  "mail",
+  "phone",
+  "tel",
+  "mobile",
+  "name",
+  "firstname",
+  "first_name",
+  "lastname",
+  "last_name",
+  "surname",
+  "fullname",
+  "full_name",
+  "username",
+  "user",
+  "address",
+  "street",
+  "postcode",
+  "postal_code",
+  "zip",
+  "zipcode",
+  "dob",
+  "birthdate",
+  "ssn",
+  "password",
+  "pass",
+  "passwd",
+  "pwd",
+  "token",
+  "access_token",
+  "id_token",
+  "refresh_token",
+  "auth",
+  "code",
+  "key",
+  "api_key",
+  "apikey",
+  "secret",
+  "sid",
+  "session",
+  "card",
+  "cc",
+  "iban",
+  "ip",
+]);
+
+const EMAIL_PATTERN = /[^\s@/?&=]+@[^\s@/?&=]+\.[a-z]{2,}/i;
+
+function isPiiParam(name: string, value: string, settings?: PrivacySettings): boolean {
+  const key = name.toLowerCase();
+  if (settings?.keepQueryParams?.some((keep) => keep.toLowerCase() === key)) return false;
+  if (settings?.stripQueryParams?.some((strip) => strip.toLowerCase() === key)) return true;
+  return PII_QUERY_PARAMS.has(key) || EMAIL_PATTERN.test(value);
+}
+
+// Remove PII-looking entries from a map of query parameters, including from
+// URLs passed as values (such as the page path or referrer)
+export function sanitizeQueryParams(
+  params: Record<string, string>,
+  settings?: PrivacySettings,
+): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(params)) {
+    const text = String(value);
+    if (!isPiiParam(name, text, settings)) {
+      sanitized[name] = text.includes("?") ? sanitizeUrl(text, settings) : text;
+    }
+  }
+  return sanitized;
+}
+
+// Remove PII-looking query parameters from an absolute or relative URL
+export function sanitizeUrl(url: string, settings?: PrivacySettings): string {
+  if (!url || !url.includes("?")) return url;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url, "http://relative.invalid");
+  } catch (e) {
+    return url.split("?")[0];
+  }
+
+  for (const [name, value] of [...parsed.searchParams]) {
+    if (isPiiParam(name, value, settings)) {
+      parsed.searchParams.delete(name);
+    }
+  }
+
+  if (parsed.origin === "http://relative.invalid") {
+    return `${parsed.pathname}${parsed.search}${parsed.hash}`;
+  }
+  return parsed.toString();
+}
+
+// Truncate an IP to its network prefix: /24 for IPv4, /48 for IPv6
+export function truncateIp(ip: string): string | null {
+  if (ip.includes(".") && !ip.includes(":")) {
+    const octets = ip.split(".");
+    if (octets.length !== 4) return null;
+    return `${octets.slice(0, 3).join(".")}.0`;
+  }
+  if (ip.includes(":")) {
+    const [head] = ip.split("::");
+    const groups = head.split(":").filter(Boolean).slice(0, 3);
+    while (groups.length < 3) groups.push("0");
+    return `${groups.join(":")}::`;
+  }
+  return null;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+let isolateSecret: string | null = null;
+
+// Secret the daily salt is derived from. Without a configured secret, a
+// random one is generated for this isolate rather than falling back to a
+// known value, which would let hashes be brute-forced back to IP and user
+// agent. Hashes then differ between isolates, overcounting visitors.
+export function getVisitorHashSecret(configured: string | undefined): string {
+  if (configured) return configured;
+  if (!isolateSecret) {
+    console.warn("VISITOR_HASH_SECRET is not set: using a random secret per isolate, so visitors are overcounted");
+    isolateSecret = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+  }
+  return isolateSecret;
+}
+
+// Salt that changes every UTC day, derived from the configured secret, so
+// visitor hashes can't be linked across days
+async function getDailySalt(secret: string, date = new Date()): Promise<string> {
+  const day = date.toISOString().slice(0, 10);
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(day)));
+}
+
+// Daily-rotating visitor hash from the IP, user agent and site ID
+export async function hashVisitor(
+  ip: string,
+  userAgent: string,
+  siteId: string,
+  secret: string,
+): Promise<string> {
+  const salt = await getDailySalt(secret);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${salt}|${siteId}|${ip}|${userAgent}`),
+  );
+  return toHex(digest).slice(0, 32);
+}
+
+// Compute the visitor hash from the raw IP, then anonymise the IP for storage
+export async function getVisitorPrivacy(
+  ip: string,
+  userAgent: string,
+  siteId: string,
+  secret: string,
+  settings?: PrivacySettings,
+): Promise<VisitorPrivacy> {
+  const visitorId = await hashVisitor(ip, userAgent, siteId, secret);
+  const storedIp = settings?.ipAddress === "drop" ? null : truncateIp(ip);
+  return { ip: storedIp, visitorId };
+}
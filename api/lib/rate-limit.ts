@@ -0,0 +1,166 @@
+import type { Env } from "../types";
+import type { SiteConfig } from "./sites";
+
+// Limits applied to ingest requests, configurable per site
+export interface IngestLimits {
+  // Events accepted in a single batch request
+  maxBatchEvents: number;
+  // Size of a request body
+  maxBodyBytes: number;
+  // Nesting depth of an event's properties, where { a: 1 } has depth 1
+  maxPropertyDepth: number;
+  // Size of an event's properties, serialised as JSON
+  maxPropertiesBytes: number;
+  // Events accepted per minute for the whole site
+  siteEventsPerMinute: number;
+  // Events accepted per minute from a single IP address
+  ipEventsPerMinute: number;
+}
+
+export const DEFAULT_INGEST_LIMITS: IngestLimits = {
+  maxBatchEvents: 100,
+  maxBodyBytes: 128 * 1024,
+  maxPropertyDepth: 3,
+  maxPropertiesBytes: 8 * 1024,
+  siteEventsPerMinute: 10000,
+  ipEventsPerMinute: 600,
+};
+
+// Bodies larger than this are refused before the site is known
+export const MAX_INGEST_BODY_BYTES = 1024 * 1024;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+// Counts events against a limit per key in fixed time windows
+export interface RateLimiter {
+  consume(key: string, count: number, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+// The subset of a Durable Object namespace used for rate limiting
+export interface RateLimiterNamespace {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+// Fixed-window counters held in memory
+class WindowCounters {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  consume(key: string, count: number, limit: number, windowMs: number, now = Date.now()): RateLimitResult {
+    const start = now - (now % windowMs);
+    for (const [existingKey, window] of this.windows) {
+      if (window.start < start) this.windows.delete(existingKey);
+    }
+
+    const window = this.windows.get(key) || { start, count: 0 };
+    if (window.count + count > limit) {
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((start + windowMs - now) / 1000)) };
+    }
+
+    window.count += count;
+    this.windows.set(key, window);
+    return { allowed: true };
+  }
+}
+
+// Durable Object holding the counter for one rate limit key. Every Worker
+// instance talks to the same object, so limits hold across the network.
+export class RateLimiterObject {
+  private counters = new WindowCounters();
+
+  async fetch(request: Request): Promise<Response> {
+    const { key, count, limit, windowMs } = (await request.json()) as {
+      key: string;
+      count: number;
+      limit: number;
+      windowMs: number;
+    };
+    return Response.json(this.counters.consume(key, count, limit, windowMs));
+  }
+}
+
+// Rate limiter backed by one RateLimiterObject per key
+export class DurableObjectRateLimiter implements RateLimiter {
+  constructor(private readonly namespace: RateLimiterNamespace) {}
+
+  async consume(key: string, count: number, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch("https://rate-limiter/consume", {
+      method: "POST",
+      body: JSON.stringify({ key, count, limit, windowMs }),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter responded with ${response.status}`);
+    }
+    return (await response.json()) as RateLimitResult;
+  }
+}
+
+// In-memory rate limiter, used for local development and tests. Limits only
+// apply per isolate.
+export class InMemoryRateLimiter implements RateLimiter {
+  private counters = new WindowCounters();
+
+  async consume(key: string, count: number, limit: number, windowMs: number): Promise<RateLimitResult> {
+    return this.counters.consume(key, count, limit, windowMs);
+  }
+}
+
+const inMemoryRateLimiter = new InMemoryRateLimiter();
+
+// Create the rate limiter for the current environment
+export function createRateLimiter(env: Env): RateLimiter {
+  if (env.RATE_LIMITER) {
+    return new DurableObjectRateLimiter(env.RATE_LIMITER);
+  }
+  return inMemoryRateLimiter;
+}
+
+// Resolve a site's ingest limits over the defaults
+export function getIngestLimits(site: SiteConfig): IngestLimits {
+  return { ...DEFAULT_INGEST_LIMITS, ...site.settings?.limits };
+}
+
+// Count events from an IP address against the IP and site limits. If the
+// limiter is unavailable, events are let through rather than lost.
+export async function checkRateLimits(
+  limiter: RateLimiter,
+  site: SiteConfig,
+  ip: string,
+  count: number,
+): Promise<RateLimitResult> {
+  const limits = getIngestLimits(site);
+  try {
+    const ipResult = await limiter.consume(
+      `ip:${site.siteId}:${ip}`,
+      count,
+      limits.ipEventsPerMinute,
+      RATE_LIMIT_WINDOW_MS,
+    );
+    if (!ipResult.allowed) return ipResult;
+    return await limiter.consume(`site:${site.siteId}`, count, limits.siteEventsPerMinute, RATE_LIMIT_WINDOW_MS);
+  } catch (error) {
+    console.error("Rate limiter unavailable", error);
+    return { allowed: true };
+  }
+}
+
+function getDepth(value: unknown): number {
+  if (value === null || typeof value !== "object") return 0;
+  const children = Array.isArray(value) ? value : Object.values(value);
+  return 1 + Math.max(0, ...children.map(getDepth));
+}
+
+// Check event properties against the site's limits, returning the problem if any
+export function checkPropertyLimits(properties: unknown, limits: IngestLimits, field = "properties"): string | null {
+  if (properties === undefined) return null;
+  if (getDepth(properties) > limits.maxPropertyDepth) {
+    return `${field} must be nested at most ${limits.maxPropertyDepth} levels deep`;
+  }
+  if (new TextEncoder().encode(JSON.stringify(properties)).length > limits.maxPropertiesBytes) {
+    return `${field} must be at most ${limits.maxPropertiesBytes} bytes`;
+  }
+  return null;
+}
@@ -0,0 +1,336 @@
+import type { EcommerceAction, IdentityAction, QueuedEvent, WebVitalName, WebVitalRating } from "../../src/lib/schema";
+import { getAttribution, getSiteHosts, type Attribution } from "./attribution";
+import { estimateClockSkew, resolveEventTime, type EventTimeFlag } from "./event-time";
+import type { GeoInfo } from "./geo";
+import { matchGoals, type GoalConversion } from "./goals";
+import { sanitizeQueryParams, sanitizeUrl, type VisitorPrivacy } from "./privacy";
+import type { SiteConfig } from "./sites";
+import type { UserAgentInfo } from "./user-agent";
+
+// Version of the record schema below. Bump it whenever a field is added,
+// removed or changes meaning, so the warehouse can tell records apart.
+export const RECORD_SCHEMA_VERSION = 6;
+
+export interface ScreenDimensions {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// The record sent to the pipeline for every ingested event, whichever route
+// it arrived through. Fields that don't apply to an event are null rather
+// than missing.
+export interface AnalyticsRecord {
+  // RECORD_SCHEMA_VERSION at the time the record was built
+  schema_version: number;
+  // When the event happened, as an ISO 8601 string. This is the client's
+  // event time corrected for clock skew, or the received time without one.
+  timestamp: string;
+  // When the Worker received the event, as an ISO 8601 string
+  received_at: string;
+  // Server clock minus client clock in milliseconds, estimated per request
+  clock_skew_ms: number;
+  // Set when the event time was clamped for being too far in the future or past
+  timestamp_flag: EventTimeFlag | null;
+  data_type: "pageview" | "event" | "web_vitals" | "identify" | "ecommerce";
+  session_data: {
+    site_id: string;
+    // Client-provided user ID, or the visitor hash when there is none. For
+    // identity records, the user being identified or aliased to.
+    user_id: string;
+    // Daily-rotating hash of the visitor, see privacy.ts
+    visitor_id: string;
+    // Client session ID, null for requests without one
+    session_id: string | null;
+    // When the client recorded the event, in milliseconds since the epoch
+    client_timestamp: string;
+    // Cookieless visit counters, only set for /pageview requests
+    hits: number | null;
+    new_visitor: 0 | 1 | null;
+    bounce: number | null;
+  };
+  event_data: {
+    // Client event ID used for deduplication, or a generated UUID
+    event_id: string;
+    event_type: "pageview" | "custom" | "web_vitals" | "identify" | "ecommerce";
+    // Custom event fields, null for pageviews. Web vitals use the metric
+    // name and value, identity records the action, and ecommerce records the
+    // action and revenue.
+    event_name: string | null;
+    event_category: string | null;
+    event_label: string | null;
+    event_value: number | null;
+    non_interaction: boolean;
+    virtual_pageview: boolean;
+    content_type: string;
+    version_tag: string;
+  };
+  app_data: {
+    app_name: string;
+    app_type: string;
+    library_version: string;
+    language: string;
+  };
+  device_info: {
+    browser: string;
+    browser_version: string;
+    os: string;
+    os_version: string;
+    device: string;
+    is_bot: boolean;
+    bot_name: string | null;
+    userAgent: string;
+    screen: ScreenDimensions | null;
+    viewport: ScreenDimensions | null;
+  };
+  page: {
+    // Full page URL, with PII-looking query parameters removed
+    url: string;
+    path: string;
+    title: string;
+    language: string;
+  };
+  // Referring URL, or "NA" for none
+  referrer: string;
+  attribution: Attribution;
+  // Web vital measurement, null for other records
+  web_vitals: {
+    name: WebVitalName;
+    value: number;
+    delta: number;
+    // Several records with the same ID are reports of one measurement, the
+    // latest being the final value
+    id: string | null;
+    rating: WebVitalRating | null;
+    navigation_type: string | null;
+    // CSS selector of the element the metric is attributed to
+    attribution: string | null;
+  } | null;
+  // Identity event linking user IDs, null for other records
+  identity: {
+    action: IdentityAction;
+    user_id: string;
+    // For alias, the ID now linked to user_id
+    previous_id: string | null;
+    // For identify, the anonymous ID the visitor had before being identified
+    anonymous_id: string | null;
+    traits: Record<string, unknown>;
+  } | null;
+  // Ecommerce event, null for other records. Amounts are in the currency given.
+  ecommerce: {
+    action: EcommerceAction;
+    // Set for purchases, each of which is recorded once per order ID
+    order_id: string | null;
+    currency: string | null;
+    revenue: number | null;
+    tax: number | null;
+    shipping: number | null;
+    items: Array<{
+      id: string;
+      name: string | null;
+      category: string | null;
+      brand: string | null;
+      variant: string | null;
+      price: number | null;
+      quantity: number;
+    }>;
+  } | null;
+  // Custom event properties, empty for pageviews
+  properties: Record<string, unknown>;
+  // The site's goals this record converts on, with the revenue credited
+  goals: GoalConversion[];
+  // Visitor IP after the site's privacy settings, null when dropped
+  ip: string | null;
+  geo: GeoInfo;
+  // Query parameters sent with the event, with PII-looking entries removed
+  raw_query_params: Record<string, string>;
+}
+
+// Request-level details shared by every event in a request
+export interface RecordContext {
+  site: SiteConfig;
+  visitor: VisitorPrivacy;
+  userAgent: string;
+  userAgentInfo: UserAgentInfo;
+  geo: GeoInfo;
+  // Page URL to use when the client sends no page details. Only /pageview
+  // sets it, from the Referer of the page making the request; the tracker
+  // always sends its own.
+  fallbackPageUrl: string | null;
+  receivedAt: Date;
+}
+
+// A single event to turn into a record
+export interface RecordInput {
+  event: QueuedEvent;
+  // Page and app details in the tracker's query parameter form (p, ref, r, lng, ...)
+  params: Record<string, string>;
+  userId?: string;
+  sessionId?: string;
+  // When the client sent the request, used to estimate its clock skew. Every
+  // event in a batch shares the estimate.
+  sentAt?: number;
+  // Cookieless visit counters from the /pageview cache headers
+  visitCounters?: { hits: number; newVisitor: boolean; bounce: number };
+}
+
+// Extract screen dimensions from the 'r' parameter (e.g., 1800x1169x30x30)
+function parseScreenDimensions(dimensionStr: string | undefined): ScreenDimensions | null {
+  if (!dimensionStr) return null;
+
+  const parts = dimensionStr.split("x");
+  if (parts.length < 2) return null;
+
+  return {
+    width: Number.parseInt(parts[0], 10) || 0,
+    height: Number.parseInt(parts[1], 10) || 0,
+    offsetX: parts.length > 2 ? (Number.parseInt(parts[2], 10) || 0) : 0,
+    offsetY: parts.length > 3 ? (Number.parseInt(parts[3], 10) || 0) : 0,
+  };
+}
+
+// Page URL from the tracker's domain, protocol and path params, falling back
+// to the request's page URL for clients that don't send them
+function getPageUrl(params: Record<string, string>, path: string, fallbackPageUrl: string | null): string {
+  if (!params.domain) return fallbackPageUrl || "";
+  return `${params.protocol || "https"}://${params.domain}${path}`;
+}
+
+function getPathname(url: string | null): string {
+  if (!url) return "";
+  try {
+    return new URL(url).pathname;
+  } catch (e) {
+    return "";
+  }
+}
+
+// Build the record for one event
+export function buildRecord(context: RecordContext, input: RecordInput): AnalyticsRecord {
+  const { event, params } = input;
+  const privacy = context.site.settings?.privacy;
+  const isPageview = event.type === "pageview";
+  const custom = event.type === "event" ? event : null;
+  const vital = event.type === "web_vitals" ? event : null;
+  const identity = event.type === "identify" ? event : null;
+  const ecommerce = event.type === "ecommerce" ? event : null;
+
+  const path =
+    ((event.type === "pageview" || event.type === "web_vitals") && event.path) ||
+    params.p ||
+    getPathname(context.fallbackPageUrl);
+  const referrer = (isPageview && event.referrer) || params.ref || "";
+  const language = (isPageview && event.language) || params.lng || "";
+  const counters = input.visitCounters;
+  const sentAt = input.sentAt ?? params.ts;
+  const time = resolveEventTime(
+    event.timestamp ?? sentAt,
+    estimateClockSkew(sentAt, context.receivedAt),
+    context.receivedAt,
+  );
+
+  const record: AnalyticsRecord = {
+    schema_version: RECORD_SCHEMA_VERSION,
+    timestamp: time.eventTime.toISOString(),
+    received_at: context.receivedAt.toISOString(),
+    clock_skew_ms: time.skewMs,
+    timestamp_flag: time.flag,
+    data_type: event.type,
+    session_data: {
+      site_id: context.site.siteId,
+      user_id: event.userId || input.userId || params.user_id || context.visitor.visitorId,
+      visitor_id: context.visitor.visitorId,
+      session_id: input.sessionId || params.session_id || null,
+      client_timestamp: String(event.timestamp || sentAt || Date.now()),
+      hits: counters ? counters.hits : null,
+      new_visitor: counters ? (counters.newVisitor ? 1 : 0) : null,
+      bounce: counters ? counters.bounce : null,
+    },
+    event_data: {
+      event_id: event.eventId || crypto.randomUUID(),
+      event_type: event.type === "event" ? "custom" : event.type,
+      event_name: (ecommerce || identity)?.action ?? (vital ? vital.name : custom ? custom.eventName : null),
+      event_category: custom ? custom.eventCategory || "interaction" : null,
+      event_label: custom ? custom.eventLabel || "" : null,
+      event_value: ecommerce ? ecommerce.revenue ?? null : vital ? vital.value : custom ? custom.eventValue || 0 : null,
+      non_interaction: custom?.nonInteraction || Boolean(vital || identity),
+      virtual_pageview: (isPageview && event.virtualPageview) || false,
+      content_type: (isPageview && event.contentType) || params.content_type || (isPageview ? "page" : ""),
+      version_tag: params.vtag || "",
+    },
+    app_data: {
+      app_name: params.app_name || "",
+      app_type: params.app_type || "",
+      library_version: params.library_version || "",
+      language,
+    },
+    device_info: {
+      browser: context.userAgentInfo.browser,
+      browser_version: context.userAgentInfo.browserVersion,
+      os: context.userAgentInfo.os,
+      os_version: context.userAgentInfo.osVersion,
+      device: context.userAgentInfo.device,
+      is_bot: context.userAgentInfo.isBot,
+      bot_name: context.userAgentInfo.botName || null,
+      userAgent: context.userAgent,
+      screen: parseScreenDimensions(params.r),
+      viewport: parseScreenDimensions(params.re),
+    },
+    page: {
+      url: sanitizeUrl(getPageUrl(params, path, context.fallbackPageUrl), privacy),
+      path: sanitizeUrl(path, privacy),
+      title: (isPageview && event.title) || params.title || "",
+      language,
+    },
+    referrer: sanitizeUrl(referrer, privacy) || "NA",
+    attribution: getAttribution(params, referrer, getSiteHosts(context.site.allowedOrigins, params.domain)),
+    web_vitals: vital
+      ? {
+          name: vital.name,
+          value: vital.value,
+          delta: vital.delta ?? vital.value,
+          id: vital.id || null,
+          rating: vital.rating || null,
+          navigation_type: vital.navigationType || null,
+          attribution: vital.attribution || null,
+        }
+      : null,
+    identity: identity
+      ? {
+          action: identity.action,
+          user_id: identity.userId,
+          previous_id: identity.previousId || null,
+          anonymous_id: identity.anonymousId || null,
+          traits: identity.traits || {},
+        }
+      : null,
+    ecommerce: ecommerce
+      ? {
+          action: ecommerce.action,
+          order_id: ecommerce.orderId || null,
+          currency: ecommerce.currency || null,
+          revenue: ecommerce.revenue ?? null,
+          tax: ecommerce.tax ?? null,
+          shipping: ecommerce.shipping ?? null,
+          items: ecommerce.items.map((item) => ({
+            id: item.id,
+            name: item.name || null,
+            category: item.category || null,
+            brand: item.brand || null,
+            variant: item.variant || null,
+            price: item.price ?? null,
+            quantity: item.quantity ?? 1,
+          })),
+        }
+      : null,
+    properties: custom?.properties || {},
+    goals: [],
+    ip: context.visitor.ip,
+    geo: context.geo,
+    raw_query_params: sanitizeQueryParams(params, privacy),
+  };
+
+  record.goals = matchGoals(context.site.settings?.goals, record);
+  return record;
+}
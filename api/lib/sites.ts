@@ -0,0 +1,132 @@
+import type { Env } from "../types";
+import type { GeoDetail } from "./geo";
+import type { GoalDefinition } from "./goals";
+import type { PrivacySettings } from "./privacy";
+import type { IngestLimits } from "./rate-limit";
+
+// Per-site settings that change how events are processed
+export interface SiteSettings {
+  // Set to false to stop accepting events without deleting the site
+  enabled?: boolean;
+  // Whether bot traffic is dropped (the default) or kept and tagged with is_bot
+  botTraffic?: "drop" | "tag";
+  privacy?: PrivacySettings;
+  // Location detail stored from request.cf, defaults to country only
+  geo?: GeoDetail;
+  // Overrides for the default ingest limits
+  limits?: Partial<IngestLimits>;
+  // Conversion goals records are tagged with at ingest
+  goals?: GoalDefinition[];
+}
+
+// Configuration for a single tracked site
+export interface SiteConfig {
+  siteId: string;
+  // Origins allowed to send events, e.g. "https://example.com", or "*" for any
+  allowedOrigins: string[];
+  // Optional public key clients must send in the X-Site-Key header
+  ingestKey?: string;
+  // Secret required as a bearer token to read the site's stats
+  statsKey?: string;
+  // Set to true to let anyone read the stats of a site without a stats key
+  publicStats?: boolean;
+  settings?: SiteSettings;
+}
+
+export interface SiteRegistry {
+  getSite(siteId: string): Promise<SiteConfig | null>;
+}
+
+// Site registry backed by a KV namespace
+export class KVSiteRegistry implements SiteRegistry {
+  constructor(private readonly kv: NonNullable<Env["SITES"]>) {}
+
+  async getSite(siteId: string): Promise<SiteConfig | null> {
+    const config = await this.kv.get(`site:${siteId}`, "json");
+    return config ? { ...(config as SiteConfig), siteId } : null;
+  }
+}
+
+// In-memory site registry, used for local development and tests
+export class InMemorySiteRegistry implements SiteRegistry {
+  private sites = new Map<string, SiteConfig>();
+
+  constructor(sites: SiteConfig[] = []) {
+    for (const site of sites) {
+      this.sites.set(site.siteId, site);
+    }
+  }
+
+  async getSite(siteId: string): Promise<SiteConfig | null> {
+    return this.sites.get(siteId) || null;
+  }
+
+  setSite(site: SiteConfig): void {
+    this.sites.set(site.siteId, site);
+  }
+}
+
+function parseSitesConfig(config: Env["SITES_CONFIG"]): SiteConfig[] {
+  if (!config) return [];
+  if (typeof config !== "string") return config;
+
+  try {
+    const parsed = JSON.parse(config);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Invalid SITES_CONFIG, no sites registered", e);
+    return [];
+  }
+}
+
+// Create the site registry for the current environment
+export function createSiteRegistry(env: Env): SiteRegistry {
+  if (env.SITES) {
+    return new KVSiteRegistry(env.SITES);
+  }
+  return new InMemorySiteRegistry(parseSitesConfig(env.SITES_CONFIG));
+}
+
+// Check a request origin against a site's allowed origins. Requests without
+// an Origin header don't come from a browser page and aren't subject to CORS.
+export function isOriginAllowed(site: SiteConfig, origin: string | undefined): boolean {
+  if (!origin) return true;
+  return site.allowedOrigins.some((allowed) => allowed === "*" || allowed === origin);
+}
+
+// CORS headers for a response to an allowed origin of the site
+export function getSiteCorsHeaders(site: SiteConfig, origin: string | undefined): Record<string, string> {
+  if (!origin || !isOriginAllowed(site, origin)) return {};
+  return {
+    "Access-Control-Allow-Origin": origin,
+    Vary: "Origin",
+  };
+}
+
+export type SiteAccessResult =
+  | { ok: true; site: SiteConfig }
+  | { ok: false; status: 401 | 403; error: string };
+
+// Resolve a site and check that the request is allowed to send events to it
+export async function authorizeSite(
+  registry: SiteRegistry,
+  siteId: string,
+  request: { origin?: string; ingestKey?: string },
+): Promise<SiteAccessResult> {
+  const site = await registry.getSite(siteId);
+  if (!site || site.settings?.enabled === false) {
+    return { ok: false, status: 403, error: "Unknown site" };
+  }
+  if (!isOriginAllowed(site, request.origin)) {
+    return { ok: false, status: 403, error: "Origin not allowed for this site" };
+  }
+  if (site.ingestKey && site.ingestKey !== request.ingestKey) {
+    return { ok: false, status: 401, error: "Invalid site key" };
+  }
+  return { ok: true, site };
+}
+
+// Whether events from a bot should be dropped for this site
+export function shouldDropBotTraffic(site: SiteConfig): boolean {
+  return (site.settings?.botTraffic || "drop") === "drop";
+}
@@ -0,0 +1,243 @@
+import type { Database } from "../types";
+import type { GoalDefinition } from "./goals";
+
+export type StatsInterval = "hour" | "day" | "month";
+
+// Record properties that can be filtered on and broken down by
+export const STATS_PROPERTIES = [
+  "path",
+  "referrer",
+  "source",
+  "medium",
+  "campaign",
+  "browser",
+  "os",
+  "device",
+  "country",
+  "event_name",
+] as const;
+
+export type StatsProperty = (typeof STATS_PROPERTIES)[number];
+
+export interface StatsQuery {
+  siteId: string;
+  // Inclusive start and exclusive end, as ISO timestamps
+  from: string;
+  to: string;
+  interval: StatsInterval;
+  filters: Partial<Record<StatsProperty, string>>;
+  limit: number;
+}
+
+export type StatsQueryResult = { ok: true; query: StatsQuery } | { ok: false; error: string };
+
+const INTERVAL_FORMATS: Record<StatsInterval, string> = {
+  hour: "%Y-%m-%dT%H:00:00Z",
+  day: "%Y-%m-%d",
+  month: "%Y-%m",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LIMIT = 1000;
+
+export function isStatsProperty(value: string): value is StatsProperty {
+  return (STATS_PROPERTIES as readonly string[]).includes(value);
+}
+
+// Parse a date param: a YYYY-MM-DD day or a full ISO timestamp
+function parseDate(value: string): Date | null {
+  const date = new Date(DATE_PATTERN.test(value) ? `${value}T00:00:00.000Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Build a stats query from request query params. Dates default to the last
+// 7 days, and `to` is inclusive when given as a day.
+export function parseStatsQuery(params: Record<string, string>): StatsQueryResult {
+  const siteId = params.site_id;
+  if (!siteId) {
+    return { ok: false, error: "Missing required parameter: site_id" };
+  }
+
+  const now = new Date();
+  const to = params.to ? parseDate(params.to) : now;
+  const from = params.from ? parseDate(params.from) : new Date(now.getTime() - 7 * DAY_MS);
+  if (!from || !to) {
+    return { ok: false, error: "Invalid date range: use YYYY-MM-DD or ISO timestamps" };
+  }
+  if (params.to && DATE_PATTERN.test(params.to)) {
+    to.setTime(to.getTime() + DAY_MS);
+  }
+  if (from >= to) {
+    return { ok: false, error: "Invalid date range: from must be before to" };
+  }
+
+  const interval = (params.interval || "day") as StatsInterval;
+  if (!Object.keys(INTERVAL_FORMATS).includes(interval)) {
+    return { ok: false, error: "Invalid interval: use hour, day or month" };
+  }
+
+  const filters: StatsQuery["filters"] = {};
+  for (const [name, value] of Object.entries(params)) {
+    if (isStatsProperty(name) && value) {
+      filters[name] = value;
+    }
+  }
+
+  const limit = Math.min(Number.parseInt(params.limit || "10", 10) || 10, MAX_LIMIT);
+
+  return {
+    ok: true,
+    query: { siteId, from: from.toISOString(), to: to.toISOString(), interval, filters, limit },
+  };
+}
+
+// WHERE clause shared by all stats queries
+export function buildWhere(query: StatsQuery): { sql: string; params: unknown[] } {
+  const clauses = ["site_id = ?", "timestamp >= ?", "timestamp < ?"];
+  const params: unknown[] = [query.siteId, query.from, query.to];
+
+  for (const [property, value] of Object.entries(query.filters)) {
+    // Property names come from STATS_PROPERTIES, so they are safe to inline
+    clauses.push(`${property} = ?`);
+    params.push(value);
+  }
+
+  return { sql: clauses.join(" AND "), params };
+}
+
+// Visitors, pageviews and events per interval
+export async function getTimeseries(db: Database, query: StatsQuery) {
+  const where = buildWhere(query);
+  const { results } = await db
+    .prepare(
+      `SELECT strftime('${INTERVAL_FORMATS[query.interval]}', timestamp) AS date,
+        COUNT(DISTINCT visitor_id) AS visitors,
+        SUM(CASE WHEN data_type = 'pageview' THEN 1 ELSE 0 END) AS pageviews,
+        SUM(CASE WHEN data_type = 'event' THEN 1 ELSE 0 END) AS events
+      FROM events
+      WHERE ${where.sql}
+      GROUP BY date
+      ORDER BY date`,
+    )
+    .bind(...where.params)
+    .all<{ date: string; visitors: number; pageviews: number; events: number }>();
+  return results;
+}
+
+// Headline numbers for the whole range. Sessions without a session ID (from
+// the cookieless pageview route) are grouped by visitor instead.
+export async function getAggregate(db: Database, query: StatsQuery) {
+  const where = buildWhere(query);
+  const { results } = await db
+    .prepare(
+      `WITH sessions AS (
+        SELECT COALESCE(session_id, visitor_id) AS session,
+          SUM(CASE WHEN data_type = 'pageview' THEN 1 ELSE 0 END) AS pageviews,
+          (julianday(MAX(timestamp)) - julianday(MIN(timestamp))) * 86400 AS duration
+        FROM events
+        WHERE ${where.sql}
+        GROUP BY session
+      )
+      SELECT
+        (SELECT COUNT(DISTINCT visitor_id) FROM events WHERE ${where.sql}) AS visitors,
+        COALESCE(SUM(pageviews), 0) AS pageviews,
+        COUNT(*) AS visits,
+        COALESCE(ROUND(100.0 * SUM(CASE WHEN pageviews <= 1 THEN 1 ELSE 0 END) / COUNT(*), 1), 0) AS bounce_rate,
+        COALESCE(ROUND(AVG(duration)), 0) AS visit_duration
+      FROM sessions`,
+    )
+    .bind(...where.params, ...where.params)
+    .all<{
+      visitors: number;
+      pageviews: number;
+      visits: number;
+      bounce_rate: number;
+      visit_duration: number;
+    }>();
+  return results[0];
+}
+
+// Visitors and record counts grouped by a property, most visitors first
+export async function getBreakdown(
+  db: Database,
+  query: StatsQuery,
+  property: StatsProperty,
+  dataType?: string,
+) {
+  const where = buildWhere(query);
+  const dataTypeClause = dataType ? " AND data_type = ?" : "";
+  const dataTypeParams = dataType ? [dataType] : [];
+  const { results } = await db
+    .prepare(
+      `SELECT COALESCE(${property}, '(none)') AS value,
+        COUNT(DISTINCT visitor_id) AS visitors,
+        COUNT(*) AS count
+      FROM events
+      WHERE ${where.sql}${dataTypeClause}
+      GROUP BY value
+      ORDER BY visitors DESC, count DESC
+      LIMIT ?`,
+    )
+    .bind(...where.params, ...dataTypeParams, query.limit)
+    .all<{ value: string; visitors: number; count: number }>();
+  return results;
+}
+
+// Most viewed pages
+export function getTopPages(db: Database, query: StatsQuery) {
+  return getBreakdown(db, query, "path", "pageview");
+}
+
+// Top traffic sources, counted on pageviews
+export function getTopSources(db: Database, query: StatsQuery) {
+  return getBreakdown(db, query, "source", "pageview");
+}
+
+// Converting visitors, conversions and revenue for each of a site's goals,
+// with the percentage of visitors who converted. Filters apply to the record
+// that converted.
+export async function getConversions(db: Database, query: StatsQuery, goals: GoalDefinition[]) {
+  const where = buildWhere(query);
+  const { results: totals } = await db
+    .prepare(`SELECT COUNT(DISTINCT visitor_id) AS visitors FROM events WHERE ${where.sql}`)
+    .bind(...where.params)
+    .all<{ visitors: number }>();
+  const { results } = await db
+    .prepare(
+      `SELECT goal_id,
+        COUNT(DISTINCT visitor_id) AS visitors,
+        COUNT(*) AS conversions,
+        COALESCE(SUM(value), 0) AS value
+      FROM conversions
+      WHERE site_id = ? AND timestamp >= ? AND timestamp < ?
+        AND event_id IN (SELECT event_id FROM events WHERE ${where.sql})
+      GROUP BY goal_id`,
+    )
+    .bind(query.siteId, query.from, query.to, ...where.params)
+    .all<{ goal_id: string; visitors: number; conversions: number; value: number }>();
+
+  const totalVisitors = totals[0]?.visitors || 0;
+  return goals.map((goal) => {
+    const row = results.find((result) => result.goal_id === goal.id);
+    const visitors = row?.visitors || 0;
+    return {
+      goal_id: goal.id,
+      name: goal.name || goal.id,
+      visitors,
+      conversions: row?.conversions || 0,
+      value: row?.value || 0,
+      conversion_rate: totalVisitors ? Math.round((1000 * visitors) / totalVisitors) / 10 : 0,
+    };
+  });
+}
+
+// Visitors seen in the last few minutes, regardless of the query's date range
+export async function getRealtimeVisitors(db: Database, siteId: string, minutes = 5): Promise<number> {
+  const since = new Date(Date.now() - minutes * 60 * 1000).toISOString();
+  const { results } = await db
+    .prepare("SELECT COUNT(DISTINCT visitor_id) AS visitors FROM events WHERE site_id = ? AND timestamp >= ?")
+    .bind(siteId, since)
+    .all<{ visitors: number }>();
+  return results[0]?.visitors || 0;
+}
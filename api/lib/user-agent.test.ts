@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { parseUserAgent } from "./user-agent";
+
+// Real user agents, as sent by each browser and device
+const UA = {
+  chromeWindows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+  edgeWindows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51",
+  operaMac:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36 OPR/109.0.0.0",
+  safariMac:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4.1 Safari/605.1.15",
+  firefoxLinux: "Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0",
+  chromeAndroidPhone:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.82 Mobile Safari/537.36",
+  samsungAndroidTablet:
+    "Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Safari/537.36",
+  safariIphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4.1 Mobile/15E148 Safari/604.1",
+  chromeIpad:
+    "Mozilla/5.0 (iPad; CPU OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1",
+  edgeIphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 EdgiOS/124.0.2478.50 Mobile/15E148 Safari/605.1.15",
+  googlebot: "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+  gptbot:
+    "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)",
+  headlessChrome:
+    "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36",
+  curl: "curl/8.5.0",
+};
+
+describe("parseUserAgent", () => {
+  it("tells Edge and Opera apart from the Chrome they claim to be", () => {
+    expect(parseUserAgent(UA.chromeWindows)).toMatchObject({ browser: "Chrome", browserVersion: "124.0.0.0" });
+    expect(parseUserAgent(UA.edgeWindows)).toMatchObject({ browser: "Edge", browserVersion: "124.0.2478.51" });
+    expect(parseUserAgent(UA.operaMac)).toMatchObject({ browser: "Opera", browserVersion: "109.0.0.0" });
+    expect(parseUserAgent(UA.edgeIphone)).toMatchObject({ browser: "Edge", os: "iOS" });
+  });
+
+  it("reports Safari by its version rather than its WebKit build", () => {
+    expect(parseUserAgent(UA.safariMac)).toMatchObject({
+      browser: "Safari",
+      browserVersion: "17.4.1",
+      os: "MacOS",
+      osVersion: "10.15.7",
+      device: "Desktop",
+    });
+  });
+
+  it("maps Windows NT versions to Windows releases", () => {
+    expect(parseUserAgent(UA.chromeWindows)).toMatchObject({ os: "Windows", osVersion: "10", device: "Desktop" });
+  });
+
+  it("tells Android apart from the Linux it claims to be", () => {
+    expect(parseUserAgent(UA.chromeAndroidPhone)).toMatchObject({ os: "Android", osVersion: "14" });
+    expect(parseUserAgent(UA.firefoxLinux)).toMatchObject({ browser: "Firefox", os: "Linux", device: "Desktop" });
+  });
+
+  it("detects iOS on iPhone and iPad, rather than MacOS", () => {
+    expect(parseUserAgent(UA.safariIphone)).toMatchObject({ browser: "Safari", os: "iOS", osVersion: "17.4.1" });
+    expect(parseUserAgent(UA.chromeIpad)).toMatchObject({ browser: "Chrome", os: "iOS", osVersion: "17.4" });
+  });
+
+  it("classifies tablets and phones", () => {
+    expect(parseUserAgent(UA.safariIphone).device).toBe("Mobile");
+    expect(parseUserAgent(UA.chromeAndroidPhone).device).toBe("Mobile");
+    expect(parseUserAgent(UA.chromeIpad).device).toBe("Tablet");
+    expect(parseUserAgent(UA.samsungAndroidTablet)).toMatchObject({ browser: "Samsung Internet", device: "Tablet" });
+  });
+
+  it("flags known and generic bots", () => {
+    expect(parseUserAgent(UA.googlebot)).toMatchObject({ isBot: true, botName: "Googlebot", device: "Bot" });
+    expect(parseUserAgent(UA.gptbot)).toMatchObject({ isBot: true, botName: "OpenAI" });
+    expect(parseUserAgent(UA.headlessChrome)).toMatchObject({ isBot: true, botName: "HeadlessChrome" });
+    expect(parseUserAgent(UA.curl)).toMatchObject({ isBot: true, botName: "Other" });
+    expect(parseUserAgent(UA.chromeWindows).isBot).toBe(false);
+  });
+
+  it("returns unknowns for a missing user agent", () => {
+    expect(parseUserAgent(undefined)).toEqual({
+      browser: "Unknown",
+      browserVersion: "",
+      os: "Unknown",
+      osVersion: "",
+      device: "Unknown",
+      isBot: false,
+    });
+  });
+});
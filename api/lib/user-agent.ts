@@ -0,0 +1,152 @@
+export type DeviceClass = "Mobile" | "Tablet" | "Desktop" | "TV" | "Bot" | "Unknown";
+
+export interface UserAgentInfo {
+  browser: string;
+  browserVersion: string;
+  os: string;
+  osVersion: string;
+  device: DeviceClass;
+  isBot: boolean;
+  botName?: string;
+}
+
+// Known crawlers, checked in order, with the name reported for each
+const KNOWN_BOTS: Array<[RegExp, string]> = [
+  [/Googlebot|Google-InspectionTool|Storebot-Google|AdsBot-Google|Mediapartners-Google/i, "Googlebot"],
+  [/bingbot|BingPreview|msnbot/i, "Bingbot"],
+  [/DuckDuckBot/i, "DuckDuckBot"],
+  [/Baiduspider/i, "Baiduspider"],
+  [/YandexBot|YandexMobileBot|YandexImages/i, "YandexBot"],
+  [/Yahoo! Slurp/i, "Yahoo Slurp"],
+  [/Applebot/i, "Applebot"],
+  [/facebookexternalhit|facebookcatalog|meta-externalagent/i, "Facebook"],
+  [/Twitterbot/i, "Twitterbot"],
+  [/LinkedInBot/i, "LinkedInBot"],
+  [/Slackbot/i, "Slackbot"],
+  [/Discordbot/i, "Discordbot"],
+  [/TelegramBot/i, "TelegramBot"],
+  [/WhatsApp/i, "WhatsApp"],
+  [/Pinterestbot/i, "Pinterestbot"],
+  [/AhrefsBot/i, "AhrefsBot"],
+  [/SemrushBot/i, "SemrushBot"],
+  [/MJ12bot/i, "MJ12bot"],
+  [/DotBot/i, "DotBot"],
+  [/PetalBot/i, "PetalBot"],
+  [/Bytespider/i, "Bytespider"],
+  [/GPTBot|ChatGPT-User|OAI-SearchBot/i, "OpenAI"],
+  [/ClaudeBot|Claude-Web|anthropic-ai/i, "Anthropic"],
+  [/CCBot/i, "CCBot"],
+  [/PerplexityBot/i, "PerplexityBot"],
+  [/HeadlessChrome/i, "HeadlessChrome"],
+  [/Chrome-Lighthouse|Lighthouse/i, "Lighthouse"],
+  [/PhantomJS/i, "PhantomJS"],
+  [/UptimeRobot|Pingdom|StatusCake|Site24x7/i, "Uptime monitor"],
+];
+
+// Generic markers of automated clients not covered by the list above
+const GENERIC_BOT_PATTERN =
+  /bot\b|crawl|spider|scraper|fetcher|preview|monitor|^curl\/|^wget\/|python-requests|python-urllib|aiohttp|axios\/|node-fetch|undici|go-http-client|okhttp|java\/|libwww-perl|httpclient/i;
+
+function detectBot(userAgent: string): string | undefined {
+  for (const [pattern, name] of KNOWN_BOTS) {
+    if (pattern.test(userAgent)) return name;
+  }
+  return GENERIC_BOT_PATTERN.test(userAgent) ? "Other" : undefined;
+}
+
+// Browsers, most specific first: Edge, Opera and Samsung Internet all claim
+// to be Chrome, and Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\/([\d.]+)/, "Edge"],
+  [/Opera Mini\/([\d.]+)/, "Opera Mini"],
+  [/(?:OPR|OPT|Opera)\/([\d.]+)/, "Opera"],
+  [/SamsungBrowser\/([\d.]+)/, "Samsung Internet"],
+  [/YaBrowser\/([\d.]+)/, "Yandex Browser"],
+  [/UCBrowser\/([\d.]+)/, "UC Browser"],
+  [/(?:Firefox|FxiOS)\/([\d.]+)/, "Firefox"],
+  [/(?:Chrome|CriOS|Chromium)\/([\d.]+)/, "Chrome"],
+  [/MSIE ([\d.]+)/, "Internet Explorer"],
+  [/Trident\/.*rv:([\d.]+)/, "Internet Explorer"],
+  [/Version\/([\d.]+).*Safari\//, "Safari"],
+  [/Safari\/([\d.]+)/, "Safari"],
+];
+
+const WINDOWS_VERSIONS: Record<string, string> = {
+  "10.0": "10",
+  "6.3": "8.1",
+  "6.2": "8",
+  "6.1": "7",
+  "6.0": "Vista",
+  "5.1": "XP",
+};
+
+// Operating systems, most specific first: Android claims to be Linux and
+// iOS claims to be Mac OS X
+const OPERATING_SYSTEMS: Array<[RegExp, string, (version: string) => string]> = [
+  [/Windows Phone(?: OS)? ([\d.]+)/, "Windows Phone", (v) => v],
+  [/Windows NT ([\d.]+)/, "Windows", (v) => WINDOWS_VERSIONS[v] || v],
+  [/(?:iPhone|iPad|iPod)(?:.*?) OS ([\d_]+)/, "iOS", (v) => v.replace(/_/g, ".")],
+  [/Android ?([\d.]*)/, "Android", (v) => v],
+  [/CrOS \S+ ([\d.]+)/, "ChromeOS", (v) => v],
+  [/Mac OS X ?([\d_.]*)/, "MacOS", (v) => v.replace(/_/g, ".")],
+  [/(?:Linux|X11)()/, "Linux", (v) => v],
+];
+
+const TV_PATTERN = /SmartTV|SMART-TV|Tizen.+TV|Web0S|webOS.+TV|AppleTV|GoogleTV|Android TV|CrKey|Roku|AFT[A-Z]|BRAVIA|HbbTV|PlayStation|Xbox/i;
+const TABLET_PATTERN = /iPad|Tablet|PlayBook|Silk\/|Kindle|Nexus (?:7|9|10)\b/i;
+const MOBILE_PATTERN = /Mobi|iPhone|iPod|Windows Phone|BlackBerry|BB10|Opera Mini|webOS/i;
+
+function detectDevice(userAgent: string, os: string): DeviceClass {
+  if (TV_PATTERN.test(userAgent)) return "TV";
+  // Android tablets leave "Mobile" out of their user agent
+  if (TABLET_PATTERN.test(userAgent) || (os === "Android" && !/Mobile/.test(userAgent))) {
+    return "Tablet";
+  }
+  if (MOBILE_PATTERN.test(userAgent)) return "Mobile";
+  return "Desktop";
+}
+
+// Parse a User-Agent header into browser, OS and device details
+export function parseUserAgent(userAgent?: string): UserAgentInfo {
+  const info: UserAgentInfo = {
+    browser: "Unknown",
+    browserVersion: "",
+    os: "Unknown",
+    osVersion: "",
+    device: "Unknown",
+    isBot: false,
+  };
+
+  if (!userAgent) {
+    return info;
+  }
+
+  for (const [pattern, name] of BROWSERS) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      info.browser = name;
+      info.browserVersion = match[1] || "";
+      break;
+    }
+  }
+
+  for (const [pattern, name, formatVersion] of OPERATING_SYSTEMS) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      info.os = name;
+      info.osVersion = formatVersion(match[1] || "");
+      break;
+    }
+  }
+
+  const botName = detectBot(userAgent);
+  if (botName) {
+    info.isBot = true;
+    info.botName = botName;
+    info.device = "Bot";
+  } else {
+    info.device = detectDevice(userAgent, info.os);
+  }
+
+  return info;
+}
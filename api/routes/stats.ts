@@ -0,0 +1,107 @@
+import { Hono } from "hono";
+
+import { getFunnel, parseFunnelQuery } from "../lib/funnels";
+import { createSiteRegistry, type SiteConfig } from "../lib/sites";
+import {
+  getAggregate,
+  getBreakdown,
+  getConversions,
+  getRealtimeVisitors,
+  getTimeseries,
+  getTopPages,
+  getTopSources,
+  isStatsProperty,
+  parseStatsQuery,
+  type StatsQuery,
+} from "../lib/stats";
+import type { Database, Env } from "../types";
+
+type StatsContext = {
+  Bindings: Env;
+  Variables: { db: Database; query: StatsQuery; site: SiteConfig };
+};
+
+const stats = new Hono<StatsContext>();
+
+// Resolve the query and check access for every stats route
+stats.use("*", async (c, next) => {
+  if (!c.env.DB) {
+    return c.json({ error: "Stats backend not configured" }, 503);
+  }
+
+  const parsed = parseStatsQuery(c.req.query());
+  if (!parsed.ok) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const site = await createSiteRegistry(c.env).getSite(parsed.query.siteId);
+  if (!site) {
+    return c.json({ error: "Unknown site" }, 404);
+  }
+
+  // Stats are private: sites share their numbers with holders of the stats
+  // key, or with anyone when explicitly marked public
+  if (site.statsKey) {
+    if (c.req.header("authorization") !== `Bearer ${site.statsKey}`) {
+      return c.json({ error: "Invalid stats key" }, 401);
+    }
+  } else if (!site.publicStats) {
+    return c.json({ error: "Stats are private for this site" }, 403);
+  }
+
+  c.set("db", c.env.DB);
+  c.set("query", parsed.query);
+  c.set("site", site);
+  await next();
+});
+
+// Headline numbers: visitors, pageviews, visits, bounce rate and visit duration
+stats.get("/aggregate", async (c) => {
+  return c.json({ results: await getAggregate(c.var.db, c.var.query) });
+});
+
+// Visitors, pageviews and events per interval
+stats.get("/timeseries", async (c) => {
+  return c.json({ results: await getTimeseries(c.var.db, c.var.query) });
+});
+
+// Most viewed pages
+stats.get("/pages", async (c) => {
+  return c.json({ results: await getTopPages(c.var.db, c.var.query) });
+});
+
+// Top traffic sources
+stats.get("/referrers", async (c) => {
+  return c.json({ results: await getTopSources(c.var.db, c.var.query) });
+});
+
+// Conversions and conversion rate for each of the site's goals
+stats.get("/conversions", async (c) => {
+  return c.json({ results: await getConversions(c.var.db, c.var.query, c.var.site.settings?.goals || []) });
+});
+
+// Journeys through an ordered funnel, e.g.
+// /funnel?step=pageview:/pricing&step=event:signup_started&by=session
+stats.get("/funnel", async (c) => {
+  const parsed = parseFunnelQuery(c.req.queries("step") || [], c.req.query("by"));
+  if (!parsed.ok) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  return c.json({ results: await getFunnel(c.var.db, c.var.query, parsed.funnel) });
+});
+
+// Visitors in the last 5 minutes
+stats.get("/realtime", async (c) => {
+  return c.json({ results: { visitors: await getRealtimeVisitors(c.var.db, c.var.query.siteId) } });
+});
+
+// Breakdown by a record property, e.g. /breakdown/browser
+stats.get("/breakdown/:property", async (c) => {
+  const property = c.req.param("property");
+  if (!isStatsProperty(property)) {
+    return c.json({ error: `Unknown property: ${property}` }, 400);
+  }
+  return c.json({ results: await getBreakdown(c.var.db, c.var.query, property) });
+});
+
+export default stats;
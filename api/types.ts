@@ -0,0 +1,43 @@
+import type { EventsQueue } from "./lib/delivery";
+import type { RateLimiterNamespace } from "./lib/rate-limit";
+import type { AnalyticsRecord } from "./lib/records";
+import type { SiteConfig } from "./lib/sites";
+
+// The subset of a D1 database used for storing and querying events
+export interface Database {
+  prepare(query: string): DatabaseStatement;
+  batch(statements: DatabaseStatement[]): Promise<DatabaseRunResult[]>;
+}
+
+export interface DatabaseStatement {
+  bind(...values: unknown[]): DatabaseStatement;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  run(): Promise<DatabaseRunResult>;
+}
+
+export interface DatabaseRunResult {
+  meta: { changes?: number };
+}
+
+export interface Env {
+  ASSETS: {
+    fetch: (request: Request) => Promise<Response>;
+  };
+  ANALYTICS_PIPELINE: {
+    send(records: AnalyticsRecord[]): Promise<void>;
+  };
+  // Queue buffering records for delivery to the pipeline
+  EVENTS_QUEUE?: EventsQueue;
+  // D1 database holding a queryable copy of events for the stats API
+  DB?: Database;
+  // KV namespace holding site configuration, keyed by `site:<site_id>`
+  SITES?: {
+    get(key: string, type: "json"): Promise<unknown>;
+  };
+  // Static site configuration used when no SITES namespace is bound
+  SITES_CONFIG?: SiteConfig[] | string;
+  // Durable Object namespace counting events for rate limits
+  RATE_LIMITER?: RateLimiterNamespace;
+  // Secret the daily visitor hash salt is derived from
+  VISITOR_HASH_SECRET?: string;
+}
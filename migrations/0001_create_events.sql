@@ -0,0 +1,25 @@
+-- Queryable copy of ingested records, used by the stats API
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  data_type TEXT NOT NULL,
+  event_name TEXT,
+  visitor_id TEXT,
+  user_id TEXT,
+  session_id TEXT,
+  path TEXT,
+  referrer TEXT,
+  source TEXT,
+  medium TEXT,
+  campaign TEXT,
+  browser TEXT,
+  os TEXT,
+  device TEXT,
+  country TEXT,
+  event_value REAL,
+  record TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_site_timestamp ON events (site_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_events_site_session ON events (site_id, session_id);
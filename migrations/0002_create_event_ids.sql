@@ -0,0 +1,11 @@
+-- Client event IDs seen recently, used to drop retried duplicates at ingest
+CREATE TABLE IF NOT EXISTS event_ids (
+  site_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  seen_at TEXT NOT NULL,
+  PRIMARY KEY (site_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_ids_seen_at ON event_ids (seen_at);
+
+ALTER TABLE events ADD COLUMN event_id TEXT;
@@ -0,0 +1,3 @@
+-- Events are stored at their client event time, corrected for clock skew,
+-- with the time the Worker received them alongside
+ALTER TABLE events ADD COLUMN received_at TEXT;
@@ -0,0 +1,14 @@
+-- Goal conversions, one row per record and goal it converts on
+CREATE TABLE IF NOT EXISTS conversions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL,
+  goal_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  visitor_id TEXT,
+  session_id TEXT,
+  timestamp TEXT NOT NULL,
+  value REAL
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversions_site_goal_timestamp ON conversions (site_id, goal_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_events_site_event_id ON events (site_id, event_id);
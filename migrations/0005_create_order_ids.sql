@@ -0,0 +1,9 @@
+-- Order IDs of recorded purchases, used to record each order only once
+CREATE TABLE IF NOT EXISTS order_ids (
+  site_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  seen_at TEXT NOT NULL,
+  PRIMARY KEY (site_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_ids_seen_at ON order_ids (seen_at);
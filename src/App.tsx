@@ -1,35 +1,53 @@
 import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { 
   init as initTracker, 
   trackPageview, 
   trackEvent, 
   trackEngagement, 
+  trackLinks,
   trackClicks, 
   getQueueStatus,
   flushEvents,
-  setManualFlush
+  setManualFlush,
+  type QueuedEvent,
+  type QueueStatus
 } from './lib/tracker';
 
+// Name, category and details shown for a queued event
+function describeEvent(event: QueuedEvent): [string, string, string] {
+  switch (event.type) {
+    case 'pageview':
+      return ['pageview', 'page', `Path: ${event.path || '/'}`];
+    case 'web_vitals':
+      return [event.name, 'web_vitals', `Value: ${event.value}${event.rating ? ` (${event.rating})` : ''}`];
+    case 'identify':
+      return [event.action, 'identify', `User: ${event.userId}`];
+    case 'ecommerce': {
+      const revenue = event.revenue !== undefined ? `, revenue: ${event.revenue} ${event.currency || ''}`.trimEnd() : '';
+      return [event.action, 'ecommerce', `Items: ${event.items.length}${revenue}`];
+    }
+    default:
+      return [event.eventName, event.eventCategory || '', `Label: ${event.eventLabel || 'none'}`];
+  }
+}
+
 function App() {
   const [apiResponse, setApiResponse] = useState<{
     message?: string;
     error?: string;
   } | null>(null);
   const [trackerInitialized, setTrackerInitialized] = useState(false);
-  const [queueStatus, setQueueStatus] = useState<{
-    queueLength: number;
-    events: Array<{
-      type: 'event' | 'pageview';
-      eventName?: string;
-      eventCategory?: string;
-      eventLabel?: string;
-      path?: string;
-      timestamp?: number;
-      [key: string]: unknown;
-    }>;
-    connectionStatus: 'online' | 'offline';
-    manualFlush: boolean;
-  }>({ queueLength: 0, events: [], connectionStatus: 'online', manualFlush: false });
+  const [queueStatus, setQueueStatus] = useState<QueueStatus>({
+    queueLength: 0,
+    events: [],
+    connectionStatus: 'online',
+    manualFlush: false,
+    circuitState: 'closed',
+    consecutiveFailures: 0,
+    nextRetryAt: null,
+    droppedEvents: 0,
+  });
 
   // Function to update queue status
   const updateQueueStatus = useCallback(() => {
@@ -64,6 +82,9 @@ function App() {
       
       // Initialize user engagement tracking
       trackEngagement();
+
+      // Track outbound links, downloads and mailto/tel links
+      trackLinks();
       
       setTrackerInitialized(true);
       setApiResponse({ message: 'Tracker initialized with manual flush mode enabled' });
@@ -175,8 +196,11 @@ function App() {
   return (
     <div className="flex flex-col min-h-screen bg-gray-50">
       <header className="bg-indigo-600 text-white p-4 shadow-md">
-        <div className="container mx-auto">
+        <div className="container mx-auto flex justify-between items-center">
           <h1 className="text-xl font-semibold">Analytics Test App</h1>
+          <Link to="/dashboard" className="text-sm underline hover:text-indigo-100">
+            Dashboard
+          </Link>
         </div>
       </header>
 
@@ -233,9 +257,12 @@ function App() {
                 <span className={`inline-block px-2 py-1 rounded text-sm ${queueStatus.manualFlush ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'}`}>
                   {queueStatus.manualFlush ? 'MANUAL FLUSH' : 'AUTO FLUSH'}
                 </span>
+                <span className={`inline-block px-2 py-1 rounded text-sm ${queueStatus.circuitState === 'closed' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                  CIRCUIT {queueStatus.circuitState.toUpperCase()}
+                </span>
               </div>
               <div className="text-gray-600">
-                Site ID: test | Batch Size: 5 | Offline Support: Enabled
+                Site ID: test | Batch Size: 5 | Offline Support: Enabled | Failed flushes: {queueStatus.consecutiveFailures} | Dropped: {queueStatus.droppedEvents}
               </div>
             </div>
           </div>
@@ -288,18 +315,15 @@ function App() {
                         const eventTime = event.timestamp 
                           ? new Date(event.timestamp).toLocaleTimeString()
                           : new Date().toLocaleTimeString();
+                        const [name, category, details] = describeEvent(event);
                           
                         return (
                           <tr key={`${event.type}-${index}-${event.timestamp}`} className="border-b border-gray-200">
                             <td className="p-2">{event.type}</td>
-                            <td className="p-2">{event.type === 'pageview' ? 'pageview' : event.eventName}</td>
-                            <td className="p-2">{event.type === 'pageview' ? 'page' : event.eventCategory}</td>
+                            <td className="p-2">{name}</td>
+                            <td className="p-2">{category}</td>
                             <td className="p-2">{eventTime}</td>
-                            <td className="p-2 text-xs">
-                              {event.type === 'pageview' 
-                                ? `Path: ${event.path || '/'}` 
-                                : `Label: ${event.eventLabel || 'none'}`}
-                            </td>
+                            <td className="p-2 text-xs">{details}</td>
                           </tr>
                         );
                       })}
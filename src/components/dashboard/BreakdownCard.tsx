@@ -0,0 +1,53 @@
+import type { BreakdownRow } from '../../lib/stats-api';
+
+interface BreakdownCardProps {
+  title: string;
+  label: string;
+  rows: BreakdownRow[];
+  loading?: boolean;
+  onSelect?: (value: string) => void;
+}
+
+// Top values of a property, with a bar showing each value's share of visitors
+function BreakdownCard({ title, label, rows, loading, onSelect }: BreakdownCardProps) {
+  const max = Math.max(1, ...rows.map((row) => row.visitors));
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <h3 className="font-semibold text-gray-800 mb-3">{title}</h3>
+      <div className="flex justify-between text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+        <span>{label}</span>
+        <span>Visitors</span>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-400">Loading…</p>
+      ) : rows.length === 0 ? (
+        <p className="text-gray-500 italic">No data yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {rows.map((row) => (
+            <li key={row.value}>
+              <button
+                type="button"
+                onClick={() => onSelect?.(row.value)}
+                disabled={!onSelect}
+                className="relative w-full flex justify-between items-center px-2 py-1 text-sm text-left rounded hover:bg-gray-50"
+                title={onSelect ? `Filter by ${row.value}` : undefined}
+              >
+                <span
+                  className="absolute inset-y-0 left-0 bg-indigo-50 rounded"
+                  style={{ width: `${(row.visitors / max) * 100}%` }}
+                />
+                <span className="relative truncate pr-2 text-gray-700">{row.value}</span>
+                <span className="relative font-medium text-gray-800">{row.visitors.toLocaleString()}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default BreakdownCard;
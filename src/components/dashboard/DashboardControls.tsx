@@ -0,0 +1,89 @@
+import type { StatsProperty } from '../../lib/stats-api';
+
+export type Period = 'today' | '7d' | '30d' | 'custom';
+
+interface DashboardControlsProps {
+  period: Period;
+  from: string;
+  to: string;
+  filters: Partial<Record<StatsProperty, string>>;
+  onPeriodChange: (period: Period) => void;
+  onRangeChange: (from: string, to: string) => void;
+  onRemoveFilter: (property: StatsProperty) => void;
+}
+
+const PERIODS: Array<{ value: Period; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Date range and active filter controls for the dashboard
+function DashboardControls({
+  period,
+  from,
+  to,
+  filters,
+  onPeriodChange,
+  onRangeChange,
+  onRemoveFilter,
+}: DashboardControlsProps) {
+  const activeFilters = Object.entries(filters) as Array<[StatsProperty, string]>;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <div className="flex rounded overflow-hidden border border-gray-300">
+        {PERIODS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onPeriodChange(option.value)}
+            className={`px-3 py-1 text-sm transition duration-300 ${period === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {period === 'custom' && (
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(event) => onRangeChange(event.target.value, to)}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(event) => onRangeChange(from, event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </div>
+      )}
+
+      {activeFilters.map(([property, value]) => (
+        <span
+          key={property}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm bg-indigo-100 text-indigo-800"
+        >
+          {property} is <strong>{value}</strong>
+          <button
+            type="button"
+            onClick={() => onRemoveFilter(property)}
+            className="ml-1 text-indigo-500 hover:text-indigo-800"
+            aria-label={`Remove ${property} filter`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default DashboardControls;
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+
+import type { FunnelGrouping, FunnelResult, FunnelStep } from '../../lib/stats-api';
+import { formatDuration } from './format';
+
+interface FunnelCardProps {
+  steps: FunnelStep[];
+  by: FunnelGrouping;
+  result: FunnelResult | null;
+  loading?: boolean;
+  error?: string | null;
+  onChange: (steps: FunnelStep[], by: FunnelGrouping) => void;
+}
+
+const MAX_STEPS = 10;
+
+const GROUPINGS: Array<{ value: FunnelGrouping; label: string }> = [
+  { value: 'session', label: 'Sessions' },
+  { value: 'user', label: 'Users' },
+];
+
+// Funnel editor, with a bar per step showing how many journeys reached it
+function FunnelCard({ steps, by, result, loading, error, onChange }: FunnelCardProps) {
+  // Steps are edited as a draft and only applied on submit, so the funnel
+  // isn't queried on every keystroke
+  const [draft, setDraft] = useState<FunnelStep[]>(steps);
+
+  useEffect(() => {
+    setDraft(steps.length > 0 ? steps : [{ type: 'pageview', value: '' }, { type: 'event', value: '' }]);
+  }, [steps]);
+
+  const updateStep = (index: number, update: Partial<FunnelStep>) => {
+    setDraft(draft.map((step, i) => (i === index ? { ...step, ...update } : step)));
+  };
+
+  const completeSteps = draft.filter((step) => step.value.trim() !== '');
+  const first = result?.steps[0]?.count || 0;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-gray-800">Funnel</h3>
+        <div className="flex rounded overflow-hidden border border-gray-300">
+          {GROUPINGS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange(steps, option.value)}
+              className={`px-3 py-1 text-sm transition duration-300 ${by === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <form
+        className="space-y-2 mb-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onChange(completeSteps.map((step) => ({ ...step, value: step.value.trim() })), by);
+        }}
+      >
+        {draft.map((step, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <span className="w-6 text-gray-500">{index + 1}.</span>
+            <select
+              value={step.type}
+              onChange={(event) => updateStep(index, { type: event.target.value as FunnelStep['type'] })}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="pageview">Pageview</option>
+              <option value="event">Event</option>
+            </select>
+            <input
+              type="text"
+              value={step.value}
+              onChange={(event) => updateStep(index, { value: event.target.value })}
+              placeholder={step.type === 'pageview' ? '/pricing or /blog/*' : 'signup_completed'}
+              className="flex-grow border border-gray-300 rounded px-2 py-1"
+            />
+            <button
+              type="button"
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-gray-700"
+              aria-label={`Remove step ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft([...draft, { type: 'event', value: '' }])}
+            disabled={draft.length >= MAX_STEPS}
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Add step
+          </button>
+          <button
+            type="submit"
+            disabled={completeSteps.length < 2}
+            className="px-3 py-1 text-sm rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Show funnel
+          </button>
+        </div>
+      </form>
+
+      {steps.length < 2 ? (
+        <p className="text-gray-500 italic">Add at least two steps to see a funnel</p>
+      ) : loading ? (
+        <p className="text-gray-400">Loading…</p>
+      ) : error ? (
+        <div className="p-3 rounded bg-red-100 text-red-800">Failed to load funnel: {error}</div>
+      ) : !result || first === 0 ? (
+        <p className="text-gray-500 italic">No journeys reached the first step</p>
+      ) : (
+        <>
+          <ol className="space-y-2">
+            {result.steps.map((step) => (
+              <li key={step.step}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="truncate pr-2 text-gray-700">
+                    {step.step}. {step.type === 'pageview' ? 'Visited' : 'Triggered'} <strong>{step.value}</strong>
+                  </span>
+                  <span className="font-medium text-gray-800">{step.count.toLocaleString()}</span>
+                </div>
+                <div className="h-6 bg-gray-100 rounded overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${(step.count / first) * 100}%` }} />
+                </div>
+                {step.step > 1 && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {step.conversion_rate}% of previous step
+                    {step.median_time_from_previous !== null &&
+                      `, median ${formatDuration(step.median_time_from_previous)} later`}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+          <p className="mt-4 text-sm text-gray-700">
+            {result.steps[result.steps.length - 1].overall_rate}% converted
+            {result.median_time_to_convert !== null &&
+              ` in a median of ${formatDuration(result.median_time_to_convert)}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default FunnelCard;
@@ -0,0 +1,18 @@
+interface MetricCardProps {
+  label: string;
+  value: string;
+  loading?: boolean;
+}
+
+function MetricCard({ label, value, loading }: MetricCardProps) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="mt-1 text-2xl font-bold text-gray-800">
+        {loading ? <span className="text-gray-300">…</span> : value}
+      </div>
+    </div>
+  );
+}
+
+export default MetricCard;
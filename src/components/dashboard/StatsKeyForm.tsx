@@ -0,0 +1,40 @@
+import { useState } from 'react';
+
+interface StatsKeyFormProps {
+  onSubmit: (statsKey: string) => void;
+}
+
+// Prompt for the stats key of a private site
+function StatsKeyForm({ onSubmit }: StatsKeyFormProps) {
+  const [value, setValue] = useState('');
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (value.trim()) onSubmit(value.trim());
+      }}
+      className="flex flex-wrap items-center gap-2 mb-6 text-sm"
+    >
+      <label htmlFor="stats-key" className="text-gray-700">
+        Stats key
+      </label>
+      <input
+        id="stats-key"
+        type="password"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        autoComplete="off"
+        className="border border-gray-300 rounded px-2 py-1"
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition duration-300"
+      >
+        Unlock
+      </button>
+    </form>
+  );
+}
+
+export default StatsKeyForm;
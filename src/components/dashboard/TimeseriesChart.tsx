@@ -0,0 +1,55 @@
+import type { TimeseriesPoint } from '../../lib/stats-api';
+
+interface TimeseriesChartProps {
+  points: TimeseriesPoint[];
+  loading?: boolean;
+}
+
+// Simple bar chart of visitors and pageviews per interval
+function TimeseriesChart({ points, loading }: TimeseriesChartProps) {
+  const max = Math.max(1, ...points.map((point) => Math.max(point.visitors, point.pageviews)));
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-gray-800">Visitors and pageviews</h3>
+        <div className="flex gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-indigo-600" /> Visitors
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-indigo-200" /> Pageviews
+          </span>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-48 flex items-center justify-center text-gray-400">Loading…</div>
+      ) : points.length === 0 ? (
+        <div className="h-48 flex items-center justify-center text-gray-500 italic">No data for this period</div>
+      ) : (
+        <div className="h-48 flex items-end gap-1">
+          {points.map((point) => (
+            <div
+              key={point.date}
+              className="flex-1 h-full flex items-end gap-px"
+              title={`${point.date}: ${point.visitors} visitors, ${point.pageviews} pageviews`}
+            >
+              <div className="flex-1 bg-indigo-600 rounded-t" style={{ height: `${(point.visitors / max) * 100}%` }} />
+              <div className="flex-1 bg-indigo-200 rounded-t" style={{ height: `${(point.pageviews / max) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!loading && points.length > 0 && (
+        <div className="flex justify-between mt-2 text-xs text-gray-500">
+          <span>{points[0].date}</span>
+          <span>{points[points.length - 1].date}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimeseriesChart;
@@ -0,0 +1,264 @@
+// Durable storage for queued events, so they survive reloads and time offline
+import type { QueuedEvent } from './schema';
+
+// Limits on what is kept in storage
+export interface EventStorageLimits {
+  maxEvents: number; // Oldest events are evicted beyond this many
+  maxAgeMs: number; // Events stored longer than this are evicted
+}
+
+export interface EventStorage {
+  /**
+   * Load stored events for this tab, adopting events left behind by tabs
+   * that have since closed, and evicting expired ones
+   */
+  load(): Promise<QueuedEvent[]>;
+  /**
+   * Store events, evicting the oldest beyond the size cap
+   */
+  add(events: QueuedEvent[]): Promise<void>;
+  /**
+   * Remove events once they have been sent
+   */
+  remove(events: QueuedEvent[]): Promise<void>;
+  /**
+   * Remove all stored events
+   */
+  clear(): Promise<void>;
+}
+
+// Stored event, owned by the tab that queued it until that tab closes
+interface StoredEvent {
+  eventId: string;
+  tabId: string;
+  storedAt: number;
+  event: QueuedEvent;
+}
+
+const DB_NAME = 'analytics';
+const DB_VERSION = 1;
+const STORE_NAME = 'events';
+const LEGACY_STORAGE_KEY = 'analytics_event_queue';
+const QUEUE_LOCK = 'analytics_event_queue';
+const TAB_LOCK_PREFIX = 'analytics_tab_';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function hasWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && 'locks' in navigator;
+}
+
+// IDs of tabs that are still open, from the locks they hold. Null when
+// Web Locks aren't supported and open tabs can't be told apart.
+async function getOpenTabs(): Promise<Set<string> | null> {
+  if (!hasWebLocks()) return null;
+  const { held = [] } = await navigator.locks.query();
+  const tabs = new Set<string>();
+  for (const lock of held) {
+    if (lock.name?.startsWith(TAB_LOCK_PREFIX)) {
+      tabs.add(lock.name.slice(TAB_LOCK_PREFIX.length));
+    }
+  }
+  return tabs;
+}
+
+// Events that were stored by older versions of the tracker
+function takeLegacyEvents(): QueuedEvent[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    const parsed: QueuedEvent[] = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    // Events queued before event IDs were added need one to be stored
+    return parsed.map((event, index) => (event.eventId ? event : { ...event, eventId: `legacy-${Date.now()}-${index}` }));
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Event storage in IndexedDB, with one record per event. Each tab holds a
+ * Web Lock for as long as it is open, so a tab only adopts events from tabs
+ * that no longer hold theirs, and loads are serialised across tabs.
+ */
+export class IndexedDBEventStorage implements EventStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly tabId: string,
+    private readonly limits: EventStorageLimits,
+  ) {
+    if (hasWebLocks()) {
+      // Held until the tab closes
+      navigator.locks.request(`${TAB_LOCK_PREFIX}${tabId}`, () => new Promise<void>(() => {}));
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'eventId' });
+        store.createIndex('storedAt', 'storedAt');
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  private withQueueLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (!hasWebLocks()) return callback();
+    return navigator.locks.request(QUEUE_LOCK, callback) as Promise<T>;
+  }
+
+  private toStoredEvent(event: QueuedEvent, storedAt = Date.now()): StoredEvent | null {
+    if (!event.eventId) return null;
+    return { eventId: event.eventId, tabId: this.tabId, storedAt, event };
+  }
+
+  async load(): Promise<QueuedEvent[]> {
+    return this.withQueueLock(async () => {
+      const openTabs = await getOpenTabs();
+      const legacyEvents = takeLegacyEvents();
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const done = transactionDone(transaction);
+      const store = transaction.objectStore(STORE_NAME);
+
+      for (const event of legacyEvents) {
+        const record = this.toStoredEvent(event, event.timestamp || Date.now());
+        if (record) store.put(record);
+      }
+
+      const records = (await requestToPromise(store.getAll())) as StoredEvent[];
+      const expiredBefore = Date.now() - this.limits.maxAgeMs;
+      const adopted: QueuedEvent[] = [];
+
+      for (const record of records.sort((a, b) => a.storedAt - b.storedAt)) {
+        if (record.storedAt < expiredBefore) {
+          store.delete(record.eventId);
+        } else if (record.tabId === this.tabId || !openTabs || !openTabs.has(record.tabId)) {
+          store.put({ ...record, tabId: this.tabId });
+          adopted.push(record.event);
+        }
+      }
+
+      await done;
+      return adopted;
+    });
+  }
+
+  async add(events: QueuedEvent[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(STORE_NAME);
+
+    for (const event of events) {
+      const record = this.toStoredEvent(event);
+      if (record) store.put(record);
+    }
+
+    // Evict the oldest events beyond the cap
+    let excess = (await requestToPromise(store.count())) - this.limits.maxEvents;
+    if (excess > 0) {
+      const cursorRequest = store.index('storedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess > 0) {
+          cursor.delete();
+          excess -= 1;
+          cursor.continue();
+        }
+      };
+    }
+
+    await done;
+  }
+
+  async remove(events: QueuedEvent[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const event of events) {
+      if (event.eventId) store.delete(event.eventId);
+    }
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+}
+
+/**
+ * Event storage in a single localStorage key, for browsers without
+ * IndexedDB. Tabs share the key, so this doesn't track event ownership.
+ */
+export class LocalStorageEventStorage implements EventStorage {
+  constructor(private readonly limits: EventStorageLimits) {}
+
+  private read(): QueuedEvent[] {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private write(events: QueuedEvent[]): void {
+    const expiredBefore = Date.now() - this.limits.maxAgeMs;
+    const kept = events.filter((event) => (event.timestamp || Date.now()) >= expiredBefore);
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(kept.slice(-this.limits.maxEvents)));
+  }
+
+  async load(): Promise<QueuedEvent[]> {
+    const events = this.read();
+    this.write(events);
+    return this.read();
+  }
+
+  async add(events: QueuedEvent[]): Promise<void> {
+    const ids = new Set(events.map((event) => event.eventId));
+    this.write([...this.read().filter((event) => !ids.has(event.eventId)), ...events]);
+  }
+
+  async remove(events: QueuedEvent[]): Promise<void> {
+    const ids = new Set(events.map((event) => event.eventId));
+    this.write(this.read().filter((event) => !ids.has(event.eventId)));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+/**
+ * Create the best event storage the browser supports, or null if it has none
+ */
+export function createEventStorage(tabId: string, limits: EventStorageLimits): EventStorage | null {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBEventStorage(tabId, limits);
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageEventStorage(limits);
+  }
+  return null;
+}
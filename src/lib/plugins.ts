@@ -0,0 +1,601 @@
+// Built-in tracker plugins for automatic tracking
+import type { WebVitalName, WebVitalRating } from './schema';
+import type { Tracker, TrackerPlugin } from './tracker';
+
+/**
+ * Track pageviews on back/forward navigation and History API changes (for SPAs)
+ */
+export function historyPlugin(): TrackerPlugin {
+  let teardown = () => {};
+
+  return {
+    name: 'history',
+    setup(tracker: Tracker) {
+      if (typeof window === 'undefined') return;
+
+      // Track on popstate event (back/forward navigation)
+      const handlePopState = () => tracker.trackPageview();
+      window.addEventListener('popstate', handlePopState);
+
+      // Override history methods to track navigation
+      const originalPushState = history.pushState;
+      const originalReplaceState = history.replaceState;
+
+      history.pushState = (...args) => {
+        originalPushState.apply(history, args);
+        tracker.trackPageview();
+      };
+
+      history.replaceState = (...args) => {
+        originalReplaceState.apply(history, args);
+        tracker.trackPageview();
+      };
+
+      teardown = () => {
+        window.removeEventListener('popstate', handlePopState);
+        history.pushState = originalPushState;
+        history.replaceState = originalReplaceState;
+      };
+    },
+    teardown() {
+      teardown();
+    },
+  };
+}
+
+// Thresholds for good and poor ratings, as used by CrUX
+const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+// Performance entries missing from TypeScript's DOM library
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: Array<{ node: Node | null }>;
+}
+
+interface InteractionEntry extends PerformanceEventTiming {
+  interactionId?: number;
+}
+
+type NavigationEntry = PerformanceNavigationTiming & { activationStart?: number };
+
+interface WebVitalMeasurement {
+  value: number;
+  reportedValue: number | null;
+  attribution?: string;
+}
+
+function getRating(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+// Short CSS selector for an element, e.g. main>div.hero>img#banner
+function getSelector(node: Node | null | undefined): string | undefined {
+  let element = node && node.nodeType === 1 ? (node as Element) : node?.parentElement ?? null;
+  const parts: string[] = [];
+
+  while (element && element.tagName !== 'HTML' && parts.length < 5) {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) {
+      parts.unshift(`${tag}#${element.id}`);
+      break;
+    }
+    const classes = Array.from(element.classList).slice(0, 2);
+    parts.unshift(classes.length > 0 ? `${tag}.${classes.join('.')}` : tag);
+    element = element.parentElement;
+  }
+
+  return parts.length > 0 ? parts.join('>') : undefined;
+}
+
+function getNavigationEntry(): NavigationEntry | undefined {
+  return performance.getEntriesByType?.('navigation')[0] as NavigationEntry | undefined;
+}
+
+/**
+ * Collect Core Web Vitals (LCP, INP, CLS) along with FCP and TTFB, and report
+ * them when the page is hidden. Values that change after a report, such as
+ * CLS, are reported again under the same ID.
+ *
+ * Pageviews for a new path, like those historyPlugin tracks in SPAs, start a
+ * soft navigation: measurements so far are reported, and INP and CLS are
+ * measured afresh for the new page. Load metrics don't apply to soft
+ * navigations, so LCP, FCP and TTFB are only reported for the first page.
+ */
+export function webVitalsPlugin(): TrackerPlugin {
+  let tracker: Tracker | null = null;
+  let observers: PerformanceObserver[] = [];
+  let removeListeners = () => {};
+
+  const measurements = new Map<WebVitalName, WebVitalMeasurement>();
+  let page = { id: '', path: '', navigationType: 'navigate' };
+  let activationStart = 0;
+  let firstHiddenTime = Infinity;
+  let lcpFinal = false;
+
+  // Layout shifts are grouped into windows of shifts less than 1s apart and
+  // at most 5s long, and CLS is the largest window
+  let clsWindow = { value: 0, first: 0, last: 0, largest: 0, attribution: undefined as string | undefined };
+
+  // Longest duration of each interaction, keeping only the longest few
+  let interactions: Array<{ id: number; duration: number; attribution?: string }> = [];
+
+  const startPage = (path: string, navigationType: string) => {
+    page = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`, path, navigationType };
+    measurements.clear();
+    clsWindow = { value: 0, first: 0, last: 0, largest: 0, attribution: undefined };
+    interactions = [];
+    if (PerformanceObserver.supportedEntryTypes?.includes('layout-shift')) {
+      setMeasurement('CLS', 0);
+    }
+  };
+
+  const setMeasurement = (name: WebVitalName, value: number, attribution?: string) => {
+    const reportedValue = measurements.get(name)?.reportedValue ?? null;
+    measurements.set(name, { value, reportedValue, attribution });
+  };
+
+  const report = () => {
+    for (const [name, measurement] of measurements) {
+      const value = name === 'CLS' ? Math.round(measurement.value * 10000) / 10000 : Math.round(measurement.value);
+      if (!tracker || measurement.reportedValue === value) continue;
+      tracker.trackWebVital({
+        name,
+        value,
+        delta: value - (measurement.reportedValue ?? 0),
+        id: `${page.id}-${name}`,
+        rating: getRating(name, value),
+        navigationType: page.navigationType,
+        attribution: measurement.attribution,
+        path: page.path,
+      });
+      measurement.reportedValue = value;
+    }
+  };
+
+  const observe = (type: string, callback: (entries: PerformanceEntry[]) => void, options: object = {}) => {
+    if (!PerformanceObserver.supportedEntryTypes?.includes(type)) return;
+    const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+    observer.observe({ type, buffered: true, ...options });
+    observers.push(observer);
+  };
+
+  const handleLargestContentfulPaint = (entries: PerformanceEntry[]) => {
+    for (const entry of entries as LargestContentfulPaint[]) {
+      if (lcpFinal || entry.startTime >= firstHiddenTime) return;
+      setMeasurement('LCP', Math.max(entry.startTime - activationStart, 0), getSelector(entry.element));
+    }
+  };
+
+  const handlePaint = (entries: PerformanceEntry[]) => {
+    for (const entry of entries) {
+      if (entry.name === 'first-contentful-paint' && entry.startTime < firstHiddenTime && !measurements.has('FCP')) {
+        setMeasurement('FCP', Math.max(entry.startTime - activationStart, 0));
+      }
+    }
+  };
+
+  const handleLayoutShift = (entries: PerformanceEntry[]) => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      if (entry.hadRecentInput) continue;
+
+      if (clsWindow.value > 0 && entry.startTime - clsWindow.last < 1000 && entry.startTime - clsWindow.first < 5000) {
+        clsWindow.value += entry.value;
+      } else {
+        clsWindow = { value: entry.value, first: entry.startTime, last: 0, largest: 0, attribution: undefined };
+      }
+      clsWindow.last = entry.startTime;
+
+      // Attribute each window to the element that moved most in its largest shift
+      if (entry.value > clsWindow.largest) {
+        clsWindow.largest = entry.value;
+        clsWindow.attribution = getSelector(entry.sources?.[0]?.node);
+      }
+
+      if (clsWindow.value > (measurements.get('CLS')?.value ?? 0)) {
+        setMeasurement('CLS', clsWindow.value, clsWindow.attribution);
+      }
+    }
+  };
+
+  const handleInteraction = (entries: PerformanceEntry[]) => {
+    for (const entry of entries as InteractionEntry[]) {
+      if (!entry.interactionId) continue;
+
+      const existing = interactions.find((interaction) => interaction.id === entry.interactionId);
+      if (existing) {
+        if (entry.duration > existing.duration) {
+          existing.duration = entry.duration;
+          existing.attribution = getSelector(entry.target);
+        }
+      } else {
+        interactions.push({ id: entry.interactionId, duration: entry.duration, attribution: getSelector(entry.target) });
+      }
+      interactions.sort((a, b) => b.duration - a.duration);
+      interactions = interactions.slice(0, 10);
+    }
+
+    // INP is the worst interaction, ignoring one in every 50 as outliers
+    const count = (performance as Performance & { interactionCount?: number }).interactionCount ?? interactions.length;
+    const inp = interactions[Math.min(interactions.length - 1, Math.floor(count / 50))];
+    if (inp) setMeasurement('INP', inp.duration, inp.attribution);
+  };
+
+  return {
+    name: 'web-vitals',
+    setup(instance: Tracker) {
+      if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') return;
+      tracker = instance;
+
+      const navigation = getNavigationEntry();
+      activationStart = navigation?.activationStart || 0;
+      firstHiddenTime = document.visibilityState === 'hidden' ? 0 : Infinity;
+      const prerendered = (document as Document & { prerendering?: boolean }).prerendering || activationStart > 0;
+      startPage(window.location.pathname, prerendered ? 'prerender' : (navigation?.type || 'navigate').replace('_', '-'));
+
+      if (navigation && navigation.responseStart > 0) {
+        setMeasurement('TTFB', Math.max(navigation.responseStart - activationStart, 0));
+      }
+
+      observe('largest-contentful-paint', handleLargestContentfulPaint);
+      observe('paint', handlePaint);
+      observe('layout-shift', handleLayoutShift);
+      observe('event', handleInteraction, { durationThreshold: 40 });
+      observe('first-input', handleInteraction);
+
+      // LCP stops at the first input, as later content is a response to it
+      const finalizeLcp = () => {
+        lcpFinal = true;
+      };
+      window.addEventListener('keydown', finalizeLcp, { once: true, capture: true });
+      window.addEventListener('pointerdown', finalizeLcp, { once: true, capture: true });
+      removeListeners = () => {
+        window.removeEventListener('keydown', finalizeLcp, { capture: true });
+        window.removeEventListener('pointerdown', finalizeLcp, { capture: true });
+      };
+    },
+    beforeQueue(event) {
+      if (!tracker || event.type !== 'pageview') return;
+      const path = event.path || window.location.pathname;
+      if (path === page.path) return;
+
+      report();
+      lcpFinal = true;
+      startPage(path, 'soft-navigation');
+    },
+    onPageHide() {
+      if (!tracker) return;
+      firstHiddenTime = Math.min(firstHiddenTime, performance.now());
+      lcpFinal = true;
+      report();
+    },
+    teardown() {
+      for (const observer of observers) {
+        observer.disconnect();
+      }
+      observers = [];
+      removeListeners();
+      tracker = null;
+    },
+  };
+}
+
+/**
+ * Track the page being hidden and shown again, with how long it was visible
+ */
+export function visibilityPlugin(): TrackerPlugin {
+  let tracker: Tracker | null = null;
+  let startTime = Date.now();
+  let isVisible = true;
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) {
+      // Page is now visible
+      startTime = Date.now();
+      if (!isVisible) {
+        tracker?.trackEvent({
+          eventName: 'visibility_change',
+          eventCategory: 'user_engagement',
+          eventLabel: 'visible',
+        });
+        isVisible = true;
+      }
+    }
+  };
+
+  return {
+    name: 'visibility',
+    setup(instance: Tracker) {
+      if (typeof document === 'undefined') return;
+      tracker = instance;
+      startTime = Date.now();
+      isVisible = !document.hidden;
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    },
+    // Page is now hidden. This runs before the flush on hide, so the event
+    // is sent with it.
+    onPageHide() {
+      if (tracker && isVisible) {
+        tracker.trackEvent({
+          eventName: 'visibility_change',
+          eventCategory: 'user_engagement',
+          eventLabel: 'hidden',
+          properties: {
+            visible_time_ms: Date.now() - startTime,
+          },
+        });
+        isVisible = false;
+      }
+    },
+    teardown() {
+      if (tracker) {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        tracker = null;
+      }
+    },
+  };
+}
+
+/**
+ * Track uncaught errors and unhandled promise rejections
+ */
+export function errorsPlugin(): TrackerPlugin {
+  let teardown = () => {};
+
+  return {
+    name: 'errors',
+    setup(tracker: Tracker) {
+      if (typeof window === 'undefined') return;
+
+      const handleError = (event: ErrorEvent) => {
+        tracker.trackEvent({
+          eventName: 'js_error',
+          eventCategory: 'error',
+          eventLabel: event.message,
+          properties: {
+            message: event.message,
+            filename: event.filename,
+            lineno: event.lineno,
+            colno: event.colno,
+            stack: event.error ? event.error.stack : undefined,
+          },
+        });
+      };
+
+      const handleRejection = (event: PromiseRejectionEvent) => {
+        tracker.trackEvent({
+          eventName: 'unhandled_promise_rejection',
+          eventCategory: 'error',
+          eventLabel: String(event.reason),
+          properties: {
+            reason: String(event.reason),
+            stack: event.reason?.stack,
+          },
+        });
+      };
+
+      window.addEventListener('error', handleError);
+      window.addEventListener('unhandledrejection', handleRejection);
+      teardown = () => {
+        window.removeEventListener('error', handleError);
+        window.removeEventListener('unhandledrejection', handleRejection);
+      };
+    },
+    teardown() {
+      teardown();
+    },
+  };
+}
+
+/**
+ * Track scroll depth milestones and time spent on the page
+ */
+export function engagementPlugin(): TrackerPlugin {
+  let tracker: Tracker | null = null;
+  let maxScroll = 0;
+  let startTime = Date.now();
+  let timeSpentReported = false;
+
+  const handleScroll = () => {
+    const scrollHeight = document.documentElement.scrollHeight - window.innerHeight;
+    if (scrollHeight) {
+      const scrolled = Math.round((window.scrollY / scrollHeight) * 100);
+      if (scrolled > maxScroll) {
+        maxScroll = scrolled;
+
+        // Track scroll milestones (25%, 50%, 75%, 90%)
+        if ([25, 50, 75, 90].includes(maxScroll)) {
+          tracker?.trackEvent({
+            eventName: 'scroll_milestone',
+            eventCategory: 'engagement',
+            eventLabel: `${maxScroll}%`,
+            eventValue: maxScroll,
+          });
+        }
+      }
+    }
+  };
+
+  return {
+    name: 'engagement',
+    setup(instance: Tracker) {
+      if (typeof window === 'undefined') return;
+      tracker = instance;
+      startTime = Date.now();
+      window.addEventListener('scroll', handleScroll, { passive: true });
+    },
+    // Track time spent on page when leaving. This is reported once, the
+    // first time the page is hidden, as later hides may never be seen.
+    onPageHide() {
+      if (!tracker || timeSpentReported) return;
+      timeSpentReported = true;
+      const timeSpentSeconds = Math.round((Date.now() - startTime) / 1000);
+
+      tracker.trackEvent({
+        eventName: 'time_spent',
+        eventCategory: 'engagement',
+        eventValue: timeSpentSeconds,
+        properties: {
+          seconds: timeSpentSeconds,
+          maxScrollPercentage: maxScroll,
+        },
+      });
+    },
+    teardown() {
+      if (tracker) {
+        window.removeEventListener('scroll', handleScroll);
+        tracker = null;
+      }
+    },
+  };
+}
+
+// File extensions that linksPlugin counts as downloads by default
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+  'pdf', 'txt', 'rtf', 'csv', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'epub',
+  'zip', 'gz', 'tgz', 'tar', 'rar', '7z', 'dmg', 'exe', 'msi', 'pkg', 'deb', 'rpm', 'apk', 'iso',
+  'mp3', 'wav', 'mp4', 'mov', 'avi',
+];
+
+// Options for linksPlugin
+export interface LinkTrackingOptions {
+  outbound?: boolean; // Track links to other hostnames, defaults to true
+  downloads?: boolean; // Track links to files, defaults to true
+  downloadExtensions?: string[]; // Replaces DEFAULT_DOWNLOAD_EXTENSIONS
+  contactLinks?: boolean; // Track mailto: and tel: links, defaults to true
+  internalHosts?: string[]; // Hostnames besides the page's own that aren't outbound, e.g. www.example.com
+}
+
+export type LinkEventName = 'outbound_link' | 'file_download';
+
+// Properties of the events linksPlugin tracks
+export type LinkEventProperties = {
+  url: string; // Link target. Contact links lose their query, such as a mailto subject.
+  link_type: 'outbound' | 'download' | 'mailto' | 'tel';
+  hostname?: string; // Not set for contact links
+  file_extension?: string; // Only set for downloads
+  text?: string; // Link text, up to 100 characters
+};
+
+function getFileExtension(pathname: string): string {
+  const file = pathname.split('/').pop() || '';
+  const dot = file.lastIndexOf('.');
+  return dot > 0 ? file.slice(dot + 1).toLowerCase() : '';
+}
+
+// Work out which event, if any, a link click should be tracked as
+function classifyLink(
+  link: HTMLAnchorElement | HTMLAreaElement,
+  options: LinkTrackingOptions,
+  extensions: string[],
+): { name: LinkEventName; properties: LinkEventProperties } | null {
+  let url: URL;
+  try {
+    url = new URL(link.href);
+  } catch (e) {
+    return null;
+  }
+  const text = link.textContent?.trim().substring(0, 100) || undefined;
+
+  if (url.protocol === 'mailto:' || url.protocol === 'tel:') {
+    if (options.contactLinks === false) return null;
+    return {
+      name: 'outbound_link',
+      properties: {
+        url: `${url.protocol}${url.pathname}`,
+        link_type: url.protocol === 'mailto:' ? 'mailto' : 'tel',
+        text,
+      },
+    };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  // Downloads are tracked as such wherever the file is hosted
+  const extension = getFileExtension(url.pathname);
+  if (options.downloads !== false && (link.hasAttribute('download') || extensions.includes(extension))) {
+    return {
+      name: 'file_download',
+      properties: {
+        url: url.href,
+        link_type: 'download',
+        hostname: url.hostname,
+        file_extension: extension || undefined,
+        text,
+      },
+    };
+  }
+
+  const internalHosts = [window.location.hostname, ...(options.internalHosts || [])];
+  if (options.outbound !== false && !internalHosts.includes(url.hostname)) {
+    return { name: 'outbound_link', properties: { url: url.href, link_type: 'outbound', hostname: url.hostname, text } };
+  }
+  return null;
+}
+
+/**
+ * Track clicks on links to other sites, file downloads and mailto: and tel:
+ * links, as outbound_link and file_download events. The events are sent
+ * straight away, as following the link may leave the page before the next
+ * flush.
+ */
+export function linksPlugin(options: LinkTrackingOptions = {}): TrackerPlugin {
+  let tracker: Tracker | null = null;
+  const extensions = (options.downloadExtensions || DEFAULT_DOWNLOAD_EXTENSIONS).map((extension) =>
+    extension.replace(/^\./, '').toLowerCase(),
+  );
+
+  const handleClick = (event: MouseEvent) => {
+    // Middle clicks open links too, in a new tab
+    if (!tracker || (event.type === 'auxclick' && event.button !== 1)) return;
+
+    const target = event.target as Element | null;
+    const link = target?.closest?.('a[href], area[href]') as HTMLAnchorElement | HTMLAreaElement | null;
+    const linkEvent = link && classifyLink(link, options, extensions);
+    if (!linkEvent) return;
+
+    tracker.trackEvent({
+      eventName: linkEvent.name,
+      eventCategory: 'link',
+      eventLabel: linkEvent.properties.url,
+      properties: linkEvent.properties,
+    });
+    // Send now rather than as the page unloads: a keepalive request outlives
+    // the navigation, and if the link opened in a new tab the page carries on
+    // with any failed events back in the queue
+    tracker.flushEvents('keepalive');
+  };
+
+  return {
+    name: 'links',
+    setup(instance: Tracker) {
+      if (typeof document === 'undefined') return;
+      tracker = instance;
+      // Listen while capturing, so links whose handlers stop the click
+      // propagating are still seen
+      document.addEventListener('click', handleClick, { capture: true, passive: true });
+      document.addEventListener('auxclick', handleClick, { capture: true, passive: true });
+    },
+    teardown() {
+      if (tracker) {
+        document.removeEventListener('click', handleClick, { capture: true });
+        document.removeEventListener('auxclick', handleClick, { capture: true });
+        tracker = null;
+      }
+    },
+  };
+}
+
+/**
+ * Plugins installed by `autoTrack` when no `plugins` option is given
+ */
+export function defaultPlugins(): TrackerPlugin[] {
+  return [historyPlugin(), webVitalsPlugin(), visibilityPlugin(), errorsPlugin()];
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+
+import { SCHEMA_VERSION, validateBatchEnvelope, validateEventPayload, validateQueuedEvent } from './schema';
+
+function errorFields(result: ReturnType<typeof validateQueuedEvent>): string[] {
+  return result.valid ? [] : result.errors.map((error) => error.field);
+}
+
+describe('validateQueuedEvent', () => {
+  it('accepts each event type', () => {
+    const events = [
+      { type: 'pageview', path: '/pricing', virtualPageview: true },
+      { type: 'event', eventName: 'signup', eventValue: 3, properties: { plan: 'pro' } },
+      { type: 'web_vitals', name: 'LCP', value: 1200, rating: 'good' },
+      { type: 'identify', action: 'identify', userId: 'user-1', traits: { plan: 'pro' } },
+      { type: 'identify', action: 'alias', userId: 'user-2', previousId: 'user-1' },
+      { type: 'ecommerce', action: 'add_to_cart', items: [{ id: 'sku-1', price: 10, quantity: 2 }] },
+      { type: 'ecommerce', action: 'purchase', orderId: 'order-1', currency: 'EUR', revenue: 20, items: [] },
+    ];
+    for (const event of events) {
+      expect(validateQueuedEvent(event)).toEqual({ valid: true, value: event });
+    }
+  });
+
+  it('rejects events that are not objects or have an unknown type', () => {
+    expect(validateQueuedEvent('pageview')).toMatchObject({ valid: false, errors: [{ code: 'invalid_payload' }] });
+    expect(validateQueuedEvent({ type: 'click' })).toMatchObject({
+      valid: false,
+      errors: [{ code: 'invalid_type', field: 'type' }],
+    });
+  });
+
+  it('requires a custom event name', () => {
+    expect(validateQueuedEvent({ type: 'event' })).toMatchObject({
+      valid: false,
+      errors: [{ code: 'missing_field', field: 'eventName' }],
+    });
+    expect(errorFields(validateQueuedEvent({ type: 'event', eventName: '  ' }))).toEqual(['eventName']);
+  });
+
+  it('checks field types', () => {
+    const result = validateQueuedEvent({
+      type: 'event',
+      eventName: 'signup',
+      eventValue: Number.NaN,
+      nonInteraction: 'yes',
+      properties: [],
+      timestamp: '1700000000000',
+    });
+    expect(errorFields(result)).toEqual(['eventValue', 'nonInteraction', 'properties', 'timestamp']);
+  });
+
+  it('limits string length', () => {
+    expect(errorFields(validateQueuedEvent({ type: 'pageview', path: `/${'a'.repeat(2048)}` }))).toEqual(['path']);
+  });
+
+  it('checks web vital names and values', () => {
+    const result = validateQueuedEvent({ type: 'web_vitals', name: 'FID', value: -1, rating: 'great' });
+    expect(errorFields(result)).toEqual(['name', 'value', 'rating']);
+  });
+
+  it('requires the user IDs identity events link', () => {
+    expect(errorFields(validateQueuedEvent({ type: 'identify', action: 'identify' }))).toEqual(['userId']);
+    expect(errorFields(validateQueuedEvent({ type: 'identify', action: 'alias', userId: 'user-2' }))).toEqual([
+      'previousId',
+    ]);
+  });
+
+  it('checks ecommerce orders and line items', () => {
+    const result = validateQueuedEvent({
+      type: 'ecommerce',
+      action: 'purchase',
+      currency: 'euro',
+      tax: -1,
+      items: [{ price: 5, quantity: 1.5 }],
+    });
+    expect(errorFields(result)).toEqual(['items.0.id', 'items.0.quantity', 'orderId', 'currency', 'tax']);
+    expect(errorFields(validateQueuedEvent({ type: 'ecommerce', action: 'product_view', items: [] }))).toEqual([
+      'items',
+    ]);
+  });
+
+  it('prefixes error fields', () => {
+    expect(errorFields(validateQueuedEvent({ type: 'event' }, 'events.2.'))).toEqual(['events.2.eventName']);
+  });
+});
+
+describe('validateBatchEnvelope', () => {
+  it('accepts a batch without validating its events', () => {
+    const payload = { schemaVersion: SCHEMA_VERSION, siteId: 'site', events: [{ type: 'unknown' }] };
+    expect(validateBatchEnvelope(payload)).toEqual({ valid: true, value: payload });
+  });
+
+  it('requires a site ID and events', () => {
+    const result = validateBatchEnvelope({ events: [] });
+    expect(result.valid ? [] : result.errors.map((error) => error.field)).toEqual(['siteId', 'events']);
+  });
+
+  it('rejects unsupported schema versions', () => {
+    expect(validateBatchEnvelope({ schemaVersion: SCHEMA_VERSION + 1, siteId: 'site', events: [{}] })).toMatchObject({
+      valid: false,
+      errors: [{ code: 'unsupported_schema_version' }],
+    });
+  });
+
+  it('requires common params to be strings', () => {
+    const result = validateBatchEnvelope({ siteId: 'site', events: [{}], commonParams: { p: 5, ref: null, lng: 'en' } });
+    expect(result.valid ? [] : result.errors.map((error) => error.field)).toEqual(['commonParams.p', 'commonParams.ref']);
+  });
+});
+
+describe('validateEventPayload', () => {
+  it('validates the event fields and query params', () => {
+    expect(validateEventPayload({ siteId: 'site', eventName: 'signup' }).valid).toBe(true);
+    const result = validateEventPayload({ siteId: 'site', queryParams: { ref: {} } });
+    expect(result.valid ? [] : result.errors.map((error) => error.field)).toEqual(['eventName', 'queryParams.ref']);
+  });
+});
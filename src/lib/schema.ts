@@ -0,0 +1,488 @@
+// Shared event contracts between the tracker client and the Worker
+
+// Bump when the shape of the payloads below changes incompatibly
+export const SCHEMA_VERSION = 1;
+
+// Campaign and ad click parameters forwarded from the page URL for attribution
+export const CAMPAIGN_PARAMS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+  'msclkid',
+] as const;
+
+// Core Web Vitals and the other page load metrics reported alongside them
+export const WEB_VITAL_NAMES = ['LCP', 'INP', 'CLS', 'FCP', 'TTFB'] as const;
+
+export type WebVitalName = (typeof WEB_VITAL_NAMES)[number];
+
+// Ratings against the thresholds used by CrUX
+export const WEB_VITAL_RATINGS = ['good', 'needs-improvement', 'poor'] as const;
+
+export type WebVitalRating = (typeof WEB_VITAL_RATINGS)[number];
+
+// Options for tracking pageviews
+export interface TrackPageviewOptions {
+  path?: string;
+  contentType?: string;
+  referrer?: string;
+  language?: string;
+  title?: string;
+  virtualPageview?: boolean;
+}
+
+// Options for tracking events
+export interface TrackEventOptions {
+  eventName: string;
+  eventCategory?: string;
+  eventLabel?: string;
+  eventValue?: number;
+  properties?: Record<string, unknown>;
+  nonInteraction?: boolean;
+}
+
+// Options for tracking a web vital measurement
+export interface TrackWebVitalOptions {
+  name: WebVitalName;
+  value: number; // In milliseconds, or unitless for CLS
+  delta?: number; // Change since the last report of this measurement
+  id?: string; // Identifies the measurement across reports, as values are updated until the page is left
+  rating?: WebVitalRating;
+  navigationType?: string; // navigate, reload, back-forward, prerender or soft-navigation
+  attribution?: string; // CSS selector of the element the metric is attributed to
+  path?: string; // Page the metric was measured on
+}
+
+// Identity events link user IDs: identify links the visitor's anonymous ID
+// to a known user, and alias links a previous user ID to a new one
+export const IDENTITY_ACTIONS = ['identify', 'alias'] as const;
+
+export type IdentityAction = (typeof IDENTITY_ACTIONS)[number];
+
+// Options for tracking an identity event
+export interface TrackIdentityOptions {
+  action: IdentityAction;
+  userId: string;
+  previousId?: string; // For alias, the ID being linked to userId
+  anonymousId?: string; // For identify, the visitor's anonymous ID
+  traits?: Record<string, unknown>; // For identify, details of the user such as their plan
+}
+
+// Ecommerce actions, from viewing a product through to buying it
+export const ECOMMERCE_ACTIONS = ['product_view', 'add_to_cart', 'checkout', 'purchase'] as const;
+
+export type EcommerceAction = (typeof ECOMMERCE_ACTIONS)[number];
+
+// Most line items an ecommerce event can carry
+export const MAX_ECOMMERCE_ITEMS = 100;
+
+// A product, or a line item in a cart or order
+export interface EcommerceItem {
+  id: string; // Product ID or SKU
+  name?: string;
+  category?: string;
+  brand?: string;
+  variant?: string;
+  price?: number; // Unit price, in the event's currency
+  quantity?: number;
+}
+
+// Options for tracking an ecommerce event
+export interface TrackEcommerceOptions {
+  action: EcommerceAction;
+  items: EcommerceItem[];
+  orderId?: string; // Required for purchases, which are recorded once per order ID
+  currency?: string; // ISO 4217 code, e.g. USD
+  revenue?: number; // Total value, including tax and shipping
+  tax?: number;
+  shipping?: number;
+}
+
+// Details of a checkout or purchase
+export type EcommerceOrder = Omit<TrackEcommerceOptions, 'action'>;
+
+// Queued pageview, as sent in a batch
+export interface QueuedPageviewEvent extends TrackPageviewOptions {
+  type: 'pageview';
+  eventId?: string;
+  userId?: string; // User ID when the event was queued, overriding the batch's
+  timestamp?: number;
+}
+
+// Queued custom event, as sent in a batch
+export interface QueuedCustomEvent extends TrackEventOptions {
+  type: 'event';
+  eventId?: string;
+  userId?: string;
+  timestamp?: number;
+}
+
+// Queued web vital measurement, as sent in a batch
+export interface QueuedWebVitalEvent extends TrackWebVitalOptions {
+  type: 'web_vitals';
+  eventId?: string;
+  userId?: string;
+  timestamp?: number;
+}
+
+// Queued identity event, as sent in a batch
+export interface QueuedIdentityEvent extends TrackIdentityOptions {
+  type: 'identify';
+  eventId?: string;
+  timestamp?: number;
+}
+
+// Queued ecommerce event, as sent in a batch
+export interface QueuedEcommerceEvent extends TrackEcommerceOptions {
+  type: 'ecommerce';
+  eventId?: string;
+  userId?: string;
+  timestamp?: number;
+}
+
+// Define event type for queue
+export type QueuedEvent =
+  | QueuedPageviewEvent
+  | QueuedCustomEvent
+  | QueuedWebVitalEvent
+  | QueuedIdentityEvent
+  | QueuedEcommerceEvent;
+
+// Body of a POST to the batch endpoint
+export interface BatchPayload {
+  schemaVersion?: number;
+  siteId: string;
+  userId?: string;
+  sessionId?: string;
+  timestamp?: number;
+  events: QueuedEvent[];
+  commonParams?: Record<string, string>;
+}
+
+// Body of a POST to the event endpoint
+export interface EventPayload extends TrackEventOptions {
+  schemaVersion?: number;
+  siteId: string;
+  eventId?: string;
+  queryParams?: Record<string, string>;
+}
+
+// Machine-readable reasons an event or payload was rejected
+export type ValidationErrorCode =
+  | 'invalid_payload'
+  | 'unsupported_schema_version'
+  | 'missing_field'
+  | 'invalid_type'
+  | 'invalid_field';
+
+export interface ValidationError {
+  code: ValidationErrorCode;
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationError[] };
+
+const MAX_STRING_LENGTH = 2048;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(
+  source: Record<string, unknown>,
+  field: string,
+  errors: ValidationError[],
+  prefix: string,
+  required = false,
+): void {
+  const value = source[field];
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push({ code: 'missing_field', field: `${prefix}${field}`, message: `${field} is required` });
+    }
+    return;
+  }
+  if (typeof value !== 'string') {
+    errors.push({ code: 'invalid_field', field: `${prefix}${field}`, message: `${field} must be a string` });
+    return;
+  }
+  if (required && value.trim() === '') {
+    errors.push({ code: 'missing_field', field: `${prefix}${field}`, message: `${field} must not be empty` });
+  } else if (value.length > MAX_STRING_LENGTH) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}${field}`,
+      message: `${field} must be at most ${MAX_STRING_LENGTH} characters`,
+    });
+  }
+}
+
+function checkNumber(source: Record<string, unknown>, field: string, errors: ValidationError[], prefix: string): void {
+  const value = source[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ code: 'invalid_field', field: `${prefix}${field}`, message: `${field} must be a finite number` });
+  }
+}
+
+function checkAmount(source: Record<string, unknown>, field: string, errors: ValidationError[], prefix: string): void {
+  const value = source[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    errors.push({ code: 'invalid_field', field: `${prefix}${field}`, message: `${field} must be a non-negative number` });
+  }
+}
+
+function checkBoolean(source: Record<string, unknown>, field: string, errors: ValidationError[], prefix: string): void {
+  const value = source[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== 'boolean') {
+    errors.push({ code: 'invalid_field', field: `${prefix}${field}`, message: `${field} must be a boolean` });
+  }
+}
+
+function checkObject(source: Record<string, unknown>, field: string, errors: ValidationError[], prefix: string): void {
+  const value = source[field];
+  if (value === undefined || value === null) return;
+  if (!isPlainObject(value)) {
+    errors.push({ code: 'invalid_field', field: `${prefix}${field}`, message: `${field} must be an object` });
+  }
+}
+
+// Query-style parameters, such as commonParams, whose values must all be strings
+function checkStringMap(source: Record<string, unknown>, field: string, errors: ValidationError[]): void {
+  const value = source[field];
+  if (value === undefined) return;
+  if (!isPlainObject(value)) {
+    errors.push({ code: 'invalid_field', field, message: `${field} must be an object` });
+    return;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry !== 'string') {
+      errors.push({ code: 'invalid_field', field: `${field}.${key}`, message: `${key} must be a string` });
+    } else {
+      checkString(value, key, errors, `${field}.`);
+    }
+  }
+}
+
+function checkSchemaVersion(source: Record<string, unknown>, errors: ValidationError[]): void {
+  const version = source.schemaVersion;
+  if (version === undefined) return;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > SCHEMA_VERSION) {
+    errors.push({
+      code: 'unsupported_schema_version',
+      field: 'schemaVersion',
+      message: `schemaVersion must be an integer between 1 and ${SCHEMA_VERSION}`,
+    });
+  }
+}
+
+function collectEventOptionErrors(source: Record<string, unknown>, errors: ValidationError[], prefix: string): void {
+  checkString(source, 'eventName', errors, prefix, true);
+  checkString(source, 'eventCategory', errors, prefix);
+  checkString(source, 'eventLabel', errors, prefix);
+  checkNumber(source, 'eventValue', errors, prefix);
+  checkBoolean(source, 'nonInteraction', errors, prefix);
+  checkObject(source, 'properties', errors, prefix);
+}
+
+function collectPageviewOptionErrors(source: Record<string, unknown>, errors: ValidationError[], prefix: string): void {
+  checkString(source, 'path', errors, prefix);
+  checkString(source, 'contentType', errors, prefix);
+  checkString(source, 'referrer', errors, prefix);
+  checkString(source, 'language', errors, prefix);
+  checkString(source, 'title', errors, prefix);
+  checkBoolean(source, 'virtualPageview', errors, prefix);
+}
+
+function collectWebVitalErrors(source: Record<string, unknown>, errors: ValidationError[], prefix: string): void {
+  if (!WEB_VITAL_NAMES.includes(source.name as WebVitalName)) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}name`,
+      message: `name must be one of ${WEB_VITAL_NAMES.join(', ')}`,
+    });
+  }
+  if (typeof source.value !== 'number' || !Number.isFinite(source.value) || source.value < 0) {
+    errors.push({ code: 'invalid_field', field: `${prefix}value`, message: 'value must be a non-negative number' });
+  }
+  checkNumber(source, 'delta', errors, prefix);
+  checkString(source, 'id', errors, prefix);
+  if (source.rating !== undefined && !WEB_VITAL_RATINGS.includes(source.rating as WebVitalRating)) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}rating`,
+      message: `rating must be one of ${WEB_VITAL_RATINGS.join(', ')}`,
+    });
+  }
+  checkString(source, 'navigationType', errors, prefix);
+  checkString(source, 'attribution', errors, prefix);
+  checkString(source, 'path', errors, prefix);
+}
+
+function collectIdentityErrors(source: Record<string, unknown>, errors: ValidationError[], prefix: string): void {
+  if (!IDENTITY_ACTIONS.includes(source.action as IdentityAction)) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}action`,
+      message: `action must be one of ${IDENTITY_ACTIONS.join(', ')}`,
+    });
+  }
+  checkString(source, 'previousId', errors, prefix, source.action === 'alias');
+  checkString(source, 'anonymousId', errors, prefix);
+  checkObject(source, 'traits', errors, prefix);
+}
+
+function collectEcommerceItemErrors(item: unknown, errors: ValidationError[], prefix: string): void {
+  if (!isPlainObject(item)) {
+    errors.push({ code: 'invalid_field', field: prefix.slice(0, -1), message: 'item must be an object' });
+    return;
+  }
+  checkString(item, 'id', errors, prefix, true);
+  checkString(item, 'name', errors, prefix);
+  checkString(item, 'category', errors, prefix);
+  checkString(item, 'brand', errors, prefix);
+  checkString(item, 'variant', errors, prefix);
+  checkAmount(item, 'price', errors, prefix);
+  const quantity = item.quantity;
+  if (quantity !== undefined && (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1)) {
+    errors.push({ code: 'invalid_field', field: `${prefix}quantity`, message: 'quantity must be a positive integer' });
+  }
+}
+
+function collectEcommerceErrors(source: Record<string, unknown>, errors: ValidationError[], prefix: string): void {
+  if (!ECOMMERCE_ACTIONS.includes(source.action as EcommerceAction)) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}action`,
+      message: `action must be one of ${ECOMMERCE_ACTIONS.join(', ')}`,
+    });
+  }
+
+  // Product views and cart additions are about particular products, while
+  // checkouts and purchases may be for an order total alone
+  const items = source.items;
+  const needsItems = source.action === 'product_view' || source.action === 'add_to_cart';
+  if (!Array.isArray(items)) {
+    errors.push({
+      code: items === undefined ? 'missing_field' : 'invalid_field',
+      field: `${prefix}items`,
+      message: 'items must be an array',
+    });
+  } else if (needsItems && items.length === 0) {
+    errors.push({ code: 'missing_field', field: `${prefix}items`, message: `items must not be empty for ${source.action}` });
+  } else if (items.length > MAX_ECOMMERCE_ITEMS) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}items`,
+      message: `items must have at most ${MAX_ECOMMERCE_ITEMS} entries`,
+    });
+  } else {
+    items.forEach((item, index) => collectEcommerceItemErrors(item, errors, `${prefix}items.${index}.`));
+  }
+
+  checkString(source, 'orderId', errors, prefix, source.action === 'purchase');
+  const currency = source.currency;
+  if (currency !== undefined && (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency))) {
+    errors.push({
+      code: 'invalid_field',
+      field: `${prefix}currency`,
+      message: 'currency must be a three-letter ISO 4217 code, e.g. USD',
+    });
+  }
+  checkAmount(source, 'revenue', errors, prefix);
+  checkAmount(source, 'tax', errors, prefix);
+  checkAmount(source, 'shipping', errors, prefix);
+}
+
+/**
+ * Validate a single queued event from a batch
+ */
+export function validateQueuedEvent(event: unknown, prefix = ''): ValidationResult<QueuedEvent> {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(event)) {
+    errors.push({ code: 'invalid_payload', field: prefix || 'event', message: 'event must be an object' });
+    return { valid: false, errors };
+  }
+
+  if (event.type === 'pageview') {
+    collectPageviewOptionErrors(event, errors, prefix);
+  } else if (event.type === 'event') {
+    collectEventOptionErrors(event, errors, prefix);
+  } else if (event.type === 'web_vitals') {
+    collectWebVitalErrors(event, errors, prefix);
+  } else if (event.type === 'identify') {
+    collectIdentityErrors(event, errors, prefix);
+  } else if (event.type === 'ecommerce') {
+    collectEcommerceErrors(event, errors, prefix);
+  } else {
+    errors.push({
+      code: 'invalid_type',
+      field: `${prefix}type`,
+      message: "type must be 'event', 'pageview', 'web_vitals', 'identify' or 'ecommerce'",
+    });
+  }
+  checkString(event, 'eventId', errors, prefix);
+  checkString(event, 'userId', errors, prefix, event.type === 'identify');
+  checkNumber(event, 'timestamp', errors, prefix);
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: event as unknown as QueuedEvent };
+}
+
+/**
+ * Validate the envelope of a batch payload. Events are validated individually
+ * with validateQueuedEvent so that one bad event doesn't reject the batch.
+ */
+export function validateBatchEnvelope(payload: unknown): ValidationResult<BatchPayload> {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(payload)) {
+    errors.push({ code: 'invalid_payload', field: '', message: 'payload must be an object' });
+    return { valid: false, errors };
+  }
+
+  checkSchemaVersion(payload, errors);
+  checkString(payload, 'siteId', errors, '', true);
+  checkString(payload, 'userId', errors, '');
+  checkString(payload, 'sessionId', errors, '');
+  checkNumber(payload, 'timestamp', errors, '');
+
+  if (!Array.isArray(payload.events) || payload.events.length === 0) {
+    errors.push({ code: 'missing_field', field: 'events', message: 'events must be a non-empty array' });
+  }
+  checkStringMap(payload, 'commonParams', errors);
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: payload as unknown as BatchPayload };
+}
+
+/**
+ * Validate a single-event payload
+ */
+export function validateEventPayload(payload: unknown): ValidationResult<EventPayload> {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(payload)) {
+    errors.push({ code: 'invalid_payload', field: '', message: 'payload must be an object' });
+    return { valid: false, errors };
+  }
+
+  checkSchemaVersion(payload, errors);
+  checkString(payload, 'siteId', errors, '', true);
+  checkString(payload, 'eventId', errors, '');
+  collectEventOptionErrors(payload, errors, '');
+
+  checkStringMap(payload, 'queryParams', errors);
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: payload as unknown as EventPayload };
+}
@@ -0,0 +1,160 @@
+// Client for the Worker's /api/stats routes
+
+export type StatsInterval = 'hour' | 'day' | 'month';
+
+// Record properties the stats API can filter on and break down by
+export type StatsProperty =
+  | 'path'
+  | 'referrer'
+  | 'source'
+  | 'medium'
+  | 'campaign'
+  | 'browser'
+  | 'os'
+  | 'device'
+  | 'country'
+  | 'event_name';
+
+export interface StatsParams {
+  siteId: string;
+  from?: string;
+  to?: string;
+  interval?: StatsInterval;
+  filters?: Partial<Record<StatsProperty, string>>;
+  limit?: number;
+  statsKey?: string;
+}
+
+export interface AggregateStats {
+  visitors: number;
+  pageviews: number;
+  visits: number;
+  bounce_rate: number;
+  visit_duration: number;
+}
+
+export interface TimeseriesPoint {
+  date: string;
+  visitors: number;
+  pageviews: number;
+  events: number;
+}
+
+export interface BreakdownRow {
+  value: string;
+  visitors: number;
+  count: number;
+}
+
+// A funnel step: a pageview of a path pattern (* matches anything) or a custom event
+export interface FunnelStep {
+  type: 'pageview' | 'event';
+  value: string;
+}
+
+// Whether funnel journeys are sessions or users
+export type FunnelGrouping = 'session' | 'user';
+
+export interface FunnelStepResult extends FunnelStep {
+  step: number;
+  count: number;
+  conversion_rate: number; // Percentage of the previous step
+  overall_rate: number; // Percentage of the first step
+  median_time_from_previous: number | null; // In seconds
+}
+
+export interface FunnelResult {
+  by: FunnelGrouping;
+  steps: FunnelStepResult[];
+  completed: number;
+  median_time_to_convert: number | null; // In seconds
+}
+
+export class StatsApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'StatsApiError';
+  }
+}
+
+const STATS_ENDPOINT = '/api/stats';
+
+async function fetchStats<T>(
+  path: string,
+  params: StatsParams,
+  signal?: AbortSignal,
+  extraParams: Array<[string, string]> = [],
+): Promise<T> {
+  const search = new URLSearchParams([['site_id', params.siteId], ...extraParams]);
+  if (params.from) search.set('from', params.from);
+  if (params.to) search.set('to', params.to);
+  if (params.interval) search.set('interval', params.interval);
+  if (params.limit) search.set('limit', String(params.limit));
+  for (const [property, value] of Object.entries(params.filters || {})) {
+    if (value) search.set(property, value);
+  }
+
+  const response = await fetch(`${STATS_ENDPOINT}${path}?${search}`, {
+    headers: params.statsKey ? { Authorization: `Bearer ${params.statsKey}` } : {},
+    signal,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new StatsApiError(body?.error || `HTTP error! status: ${response.status}`, response.status);
+  }
+  return body.results as T;
+}
+
+export function getAggregate(params: StatsParams, signal?: AbortSignal): Promise<AggregateStats> {
+  return fetchStats('/aggregate', params, signal);
+}
+
+export function getTimeseries(params: StatsParams, signal?: AbortSignal): Promise<TimeseriesPoint[]> {
+  return fetchStats('/timeseries', params, signal);
+}
+
+export function getTopPages(params: StatsParams, signal?: AbortSignal): Promise<BreakdownRow[]> {
+  return fetchStats('/pages', params, signal);
+}
+
+export function getTopSources(params: StatsParams, signal?: AbortSignal): Promise<BreakdownRow[]> {
+  return fetchStats('/referrers', params, signal);
+}
+
+export function getBreakdown(
+  property: StatsProperty,
+  params: StatsParams,
+  signal?: AbortSignal,
+): Promise<BreakdownRow[]> {
+  return fetchStats(`/breakdown/${property}`, params, signal);
+}
+
+export function getRealtimeVisitors(params: StatsParams, signal?: AbortSignal): Promise<{ visitors: number }> {
+  return fetchStats('/realtime', params, signal);
+}
+
+// Serialise a funnel step as the API expects it, e.g. "pageview:/pricing"
+export function formatFunnelStep(step: FunnelStep): string {
+  return `${step.type}:${step.value}`;
+}
+
+// Parse a funnel step from its serialised form, or null if it isn't one
+export function parseFunnelStep(value: string): FunnelStep | null {
+  const separator = value.indexOf(':');
+  const type = value.slice(0, separator);
+  if (separator === -1 || (type !== 'pageview' && type !== 'event')) return null;
+  return { type, value: value.slice(separator + 1) };
+}
+
+export function getFunnel(
+  steps: FunnelStep[],
+  by: FunnelGrouping,
+  params: StatsParams,
+  signal?: AbortSignal,
+): Promise<FunnelResult> {
+  return fetchStats('/funnel', params, signal, [
+    ...steps.map((step): [string, string] => ['step', formatFunnelStep(step)]),
+    ['by', by],
+  ]);
+}
@@ -1,8 +1,51 @@
 // Enhanced version of tracker.ts with batching, offline support, and more features
 
+import { createEventStorage, type EventStorage } from './event-storage';
+import { defaultPlugins, engagementPlugin, linksPlugin, type LinkTrackingOptions } from './plugins';
+import {
+  CAMPAIGN_PARAMS,
+  SCHEMA_VERSION,
+  validateQueuedEvent,
+  type BatchPayload,
+  type EcommerceItem,
+  type EcommerceOrder,
+  type QueuedEvent,
+  type TrackEcommerceOptions,
+  type TrackEventOptions,
+  type TrackIdentityOptions,
+  type TrackPageviewOptions,
+  type TrackWebVitalOptions,
+} from './schema';
+
+export type {
+  EcommerceAction,
+  EcommerceItem,
+  EcommerceOrder,
+  IdentityAction,
+  QueuedEvent,
+  TrackEcommerceOptions,
+  TrackEventOptions,
+  TrackPageviewOptions,
+  TrackWebVitalOptions,
+  WebVitalName,
+  WebVitalRating,
+} from './schema';
+export {
+  DEFAULT_DOWNLOAD_EXTENSIONS,
+  defaultPlugins,
+  engagementPlugin,
+  errorsPlugin,
+  historyPlugin,
+  linksPlugin,
+  visibilityPlugin,
+  webVitalsPlugin,
+} from './plugins';
+export type { LinkEventName, LinkEventProperties, LinkTrackingOptions } from './plugins';
+
 // Basic options for the tracker client
 export interface TrackerOptions {
   siteId: string;
+  siteKey?: string; // Public ingest key, if the site requires one
   eventEndpoint?: string;
   batchEndpoint?: string;
   autoTrack?: boolean;
@@ -13,39 +56,145 @@ export interface TrackerOptions {
   sessionTimeout?: number; // In minutes
   samplingRate?: number; // 0-100
   manualFlush?: boolean; // If true, events will only be flushed when flushEvents() is called
+  consent?: ConsentMode | ConsentState; // Defaults to 'granted'
+  consentFallback?: 'hold' | 'anonymous'; // What to do with events without consent, defaults to 'hold'
+  respectDoNotTrack?: boolean; // If true, Do Not Track and Global Privacy Control deny consent
+  maxStoredEvents?: number; // Offline queue size cap, oldest events are dropped first
+  storedEventTtl?: number; // In hours, offline events older than this are dropped
+  retry?: RetryOptions;
+  onDroppedEvents?: (events: QueuedEvent[], reason: DropReason) => void; // Called when events are given up on
+  plugins?: TrackerPlugin[]; // Replaces the plugins autoTrack installs by default
+}
+
+// Outcome of sending a batch, passed to afterSend
+export interface SendResult {
+  ok: boolean;
+  status?: number; // HTTP status, if the server responded
 }
 
-// Options for tracking pageviews
-export interface TrackPageviewOptions {
-  path?: string;
-  contentType?: string;
-  referrer?: string;
-  language?: string;
-  title?: string;
-  virtualPageview?: boolean;
+// Extends the tracker through hooks into its lifecycle. Errors thrown by a
+// hook are caught, so a broken plugin can't stop events being tracked.
+export interface TrackerPlugin {
+  name: string; // Unique per tracker, a plugin is only installed once
+  setup?: (tracker: Tracker) => void;
+  teardown?: () => void; // Called on cleanup, should remove anything setup added
+  beforeQueue?: (event: QueuedEvent) => QueuedEvent | null | void; // Return a changed event, or null to drop it
+  beforeSend?: (payload: BatchPayload) => BatchPayload | void; // Return a changed payload
+  afterSend?: (events: QueuedEvent[], result: SendResult) => void;
+  onSessionStart?: (session: SessionData) => void;
+  onPageHide?: () => void; // Called before the flush on hide, so events tracked here are sent with it
 }
 
-// Options for tracking events
-export interface TrackEventOptions {
-  eventName: string;
-  eventCategory?: string;
-  eventLabel?: string;
-  eventValue?: number;
-  properties?: Record<string, unknown>;
-  nonInteraction?: boolean;
+// How failed flushes are retried
+export interface RetryOptions {
+  baseDelay?: number; // In milliseconds, doubled after each consecutive failure
+  maxDelay?: number; // In milliseconds
+  maxAttempts?: number; // Failed sends before an event is dropped
+  dropStatuses?: number[]; // Responses that will never succeed, dropped without retrying
+  circuitBreakerThreshold?: number; // Consecutive failures before flushing pauses
+  circuitBreakerCooldown?: number; // In milliseconds, how long flushing pauses for
 }
 
-// Define event type for queue
-export interface QueuedEvent {
-  type: 'event' | 'pageview';
-  eventName?: string;
-  eventCategory?: string;
-  eventLabel?: string;
-  path?: string;
-  contentType?: string;
-  title?: string;
-  timestamp?: number;
-  [key: string]: unknown;
+// Why events were dropped without being sent
+export type DropReason = 'rejected' | 'max_attempts';
+
+// How a flush sends events: normally, by keepalive fetch for a page that may
+// be closed soon (such as a hidden tab), or while the page unloads, when
+// events go by sendBeacon and failures aren't put back in the queue
+export type FlushMode = 'normal' | 'keepalive' | 'unload';
+
+// Whether flushing is running normally, paused after repeated failures, or
+// about to try again after a pause
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  baseDelay: 1000,
+  maxDelay: 5 * 60 * 1000,
+  maxAttempts: 10,
+  dropStatuses: [400, 413],
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldown: 60 * 1000,
+};
+
+// Consent modes for tracking and storing identifiers
+export type ConsentMode = 'pending' | 'granted' | 'denied';
+
+// Event categories that can be consented to separately
+export type ConsentCategory = 'performance' | 'errors' | 'engagement';
+
+// Consent state, with optional per-category overrides
+export interface ConsentState {
+  mode: ConsentMode;
+  categories?: Partial<Record<ConsentCategory, boolean>>;
+}
+
+// Map of event categories to the consent category that covers them
+const CONSENT_CATEGORIES: Record<string, ConsentCategory> = {
+  performance: 'performance',
+  error: 'errors',
+  engagement: 'engagement',
+  user_engagement: 'engagement',
+};
+
+const STORAGE_KEYS = ['analytics_user_id', 'analytics_identified_user', 'analytics_session', 'analytics_event_queue'];
+
+// Delay before retrying after a 429, used when Retry-After is missing or invalid
+const DEFAULT_RETRY_AFTER_MS = 60000;
+
+// Keep each request under the 64KB that browsers allow for beacons and
+// keepalive fetches, with room to spare for headers
+const MAX_PAYLOAD_BYTES = 60 * 1024;
+
+// Matches the Worker's default batch length limit
+const MAX_BATCH_EVENTS = 100;
+
+// Batch limits the Worker enforces for a site, sent back with a 413
+interface BatchLimits {
+  maxBatchEvents: number;
+  maxBodyBytes: number;
+}
+
+function getByteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+// Total value of an ecommerce event: its items' prices plus tax and
+// shipping. Undefined when there's nothing priced to add up.
+function getEcommerceRevenue(options: TrackEcommerceOptions): number | undefined {
+  const priced = options.items.filter((item) => typeof item.price === 'number');
+  if (priced.length === 0 && options.tax === undefined && options.shipping === undefined) {
+    return undefined;
+  }
+  const itemsTotal = priced.reduce((total, item) => total + (item.price || 0) * (item.quantity ?? 1), 0);
+  // Round away floating point noise, e.g. 3 * 19.99, without assuming
+  // how many decimal places the currency has
+  return Math.round((itemsTotal + (options.tax || 0) + (options.shipping || 0)) * 1e6) / 1e6;
+}
+
+// Parse a Retry-After header, given in seconds or as an HTTP date, into milliseconds
+function parseRetryAfter(value: string | null): number {
+  if (!value) return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+}
+
+// Read the batch limits from a 413 response body, if it has them
+function parseBatchLimits(body: unknown): BatchLimits | undefined {
+  const limits = (body as { limits?: Partial<BatchLimits> } | null)?.limits;
+  const { maxBatchEvents, maxBodyBytes } = limits || {};
+  if (typeof maxBatchEvents !== 'number' || !(maxBatchEvents >= 1)) return undefined;
+  if (typeof maxBodyBytes !== 'number' || !(maxBodyBytes >= 1)) return undefined;
+  return { maxBatchEvents, maxBodyBytes };
+}
+
+// A failed batch request, with the HTTP status if the server responded
+class FlushError extends Error {
+  constructor(message: string, public status?: number, public limits?: BatchLimits) {
+    super(message);
+    this.name = 'FlushError';
+  }
 }
 
 // Session data interface
@@ -65,18 +214,37 @@ export interface QueueStatus {
   events: Array<QueuedEvent>;
   connectionStatus: 'online' | 'offline';
   manualFlush: boolean;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  nextRetryAt: number | null; // When flushing resumes after a failure or rate limit
+  droppedEvents: number;
 }
 
 // Main tracker class
 export class Tracker {
   private options: TrackerOptions;
-  private userId: string;
+  private anonymousId: string;
+  private identifiedUserId: string | null = null;
   private sessionData: SessionData;
   private eventQueue: Array<QueuedEvent> = [];
   private isSending = false;
+  private plugins: TrackerPlugin[] = [];
+  private storage: EventStorage | null = null;
+  private retryOptions: Required<RetryOptions>;
+  private retryAfter = 0; // Time before which the server asked us not to send
+  private backoffUntil = 0; // Time before which we back off after a failure
+  private circuitOpenUntil = 0;
+  private consecutiveFailures = 0;
+  private droppedEventCount = 0;
+  private eventAttempts = new Map<string, number>();
+  private unconfirmedEvents: QueuedEvent[] = []; // Sent by beacon, kept in storage until a send is confirmed
+  private heldIdentityEvents: QueuedEvent[] = []; // Identity events waiting for a consent decision
+  private batchLimits: BatchLimits = { maxBatchEvents: MAX_BATCH_EVENTS, maxBodyBytes: MAX_PAYLOAD_BYTES };
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
   private flushInterval: ReturnType<typeof setInterval> | null = null;
   private sessionInterval: ReturnType<typeof setInterval> | null = null;
   private connectionStatus: 'online' | 'offline' = 'online';
+  private consent: ConsentState;
 
   constructor(options: TrackerOptions) {
     this.options = {
@@ -90,6 +258,8 @@ export class Tracker {
       sessionTimeout: 30, // 30 minutes
       samplingRate: 100, // 100% sampling by default
       manualFlush: false, // Auto flush by default
+      maxStoredEvents: 1000,
+      storedEventTtl: 168, // 7 days, as long as the Worker remembers event IDs
       ...options,
     };
 
@@ -97,8 +267,22 @@ export class Tracker {
       throw new Error('Site ID is required for tracker initialization');
     }
 
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...this.options.retry };
+
+    // Resolve consent before anything is read from or written to storage
+    this.consent = this.resolveConsent(this.options.consent || 'granted');
+
     // Initialize user ID
-    this.userId = this.generateUserId();
+    this.anonymousId = this.generateUserId();
+    this.identifiedUserId = this.loadIdentifiedUserId();
+    
+    // Register plugins before the session starts, so they see it start.
+    // They are set up once the tracker is ready to track events.
+    const plugins = this.options.plugins
+      ?? (this.options.autoTrack && typeof window !== 'undefined' ? defaultPlugins() : []);
+    for (const plugin of plugins) {
+      this.addPlugin(plugin);
+    }
     
     // Initialize session
     this.sessionData = this.initializeSession();
@@ -117,18 +301,31 @@ export class Tracker {
       } else {
         window.addEventListener('load', () => this.trackPageview());
       }
-      
-      // Track page views when the URL changes (for SPAs)
-      this.setupHistoryTracking();
-      
-      // Track performance metrics
-      this.trackPerformance();
-      
-      // Track visibility
-      this.trackVisibility();
-      
-      // Track errors
-      this.trackErrors();
+    }
+
+    this.callPlugins((plugin) => plugin.setup?.(this));
+  }
+
+  private addPlugin(plugin: TrackerPlugin): boolean {
+    if (this.plugins.some((installed) => installed.name === plugin.name)) {
+      if (this.options.debug) {
+        console.warn(`[Tracker] Plugin ${plugin.name} is already installed`);
+      }
+      return false;
+    }
+    this.plugins.push(plugin);
+    return true;
+  }
+
+  private callPlugins(hook: (plugin: TrackerPlugin) => void): void {
+    for (const plugin of this.plugins) {
+      try {
+        hook(plugin);
+      } catch (e) {
+        if (this.options.debug) {
+          console.error(`[Tracker] Plugin ${plugin.name} failed:`, e);
+        }
+      }
     }
   }
 
@@ -139,13 +336,77 @@ export class Tracker {
     return Math.random() * 100 < (this.options.samplingRate || 100);
   }
 
+  private hasDoNotTrackSignal(): boolean {
+    if (typeof navigator === 'undefined') return false;
+    const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+    return nav.doNotTrack === '1' || nav.globalPrivacyControl === true;
+  }
+
+  private resolveConsent(consent: ConsentMode | ConsentState): ConsentState {
+    const state: ConsentState = typeof consent === 'string'
+      ? { mode: consent, categories: this.consent?.categories }
+      : { mode: consent.mode, categories: { ...this.consent?.categories, ...consent.categories } };
+
+    if (state.mode !== 'denied' && this.options.respectDoNotTrack && this.hasDoNotTrackSignal()) {
+      if (this.options.debug) {
+        console.log('[Tracker] Do Not Track or Global Privacy Control detected, consent denied');
+      }
+      state.mode = 'denied';
+    }
+
+    return state;
+  }
+
+  // Identifiers and queued events are only persisted with consent
+  private canPersist(): boolean {
+    return this.consent.mode === 'granted';
+  }
+
+  // Without consent, events are only sent if they can be sent anonymously
+  private canSendEvents(): boolean {
+    return this.canPersist() || this.options.consentFallback === 'anonymous';
+  }
+
+  private isConsentedEvent(event: QueuedEvent): boolean {
+    // Identity events only make sense with identifiers that can be stored
+    if (event.type === 'identify') {
+      return this.canPersist();
+    }
+
+    if (this.consent.mode === 'denied' && this.options.consentFallback !== 'anonymous') {
+      return false;
+    }
+
+    const category = event.type === 'web_vitals'
+      ? 'performance'
+      : event.type === 'event' && event.eventCategory
+        ? CONSENT_CATEGORIES[event.eventCategory]
+        : undefined;
+    return !category || this.consent.categories?.[category] !== false;
+  }
+
+  private clearStoredData(): void {
+    for (const key of STORAGE_KEYS) {
+      try {
+        localStorage.removeItem(key);
+      } catch (e) {
+        // localStorage not available
+      }
+    }
+    this.storage?.clear().catch(() => {
+      // Storage not available
+    });
+  }
+
   private generateUserId(): string {
     // First try to get existing ID from localStorage
-    try {
-      const storedId = localStorage.getItem('analytics_user_id');
-      if (storedId) return storedId;
-    } catch (e) {
-      // localStorage not available
+    if (this.canPersist()) {
+      try {
+        const storedId = localStorage.getItem('analytics_user_id');
+        if (storedId) return storedId;
+      } catch (e) {
+        // localStorage not available
+      }
     }
 
     // Generate a UUID-like ID for visitor tracking
@@ -156,13 +417,42 @@ export class Tracker {
     });
     
     // Store for future use
+    if (this.canPersist()) {
+      try {
+        localStorage.setItem('analytics_user_id', newId);
+      } catch (e) {
+        // localStorage not available
+      }
+    }
+    
+    return newId;
+  }
+
+  private loadIdentifiedUserId(): string | null {
+    if (!this.canPersist()) return null;
+    try {
+      return localStorage.getItem('analytics_identified_user');
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private storeIdentifiedUserId(): void {
+    if (!this.canPersist()) return;
     try {
-      localStorage.setItem('analytics_user_id', newId);
+      if (this.identifiedUserId) {
+        localStorage.setItem('analytics_identified_user', this.identifiedUserId);
+      } else {
+        localStorage.removeItem('analytics_identified_user');
+      }
     } catch (e) {
       // localStorage not available
     }
-    
-    return newId;
+  }
+
+  // The identified user's ID, or the anonymous ID until the visitor is identified
+  private getUserId(): string {
+    return this.identifiedUserId || this.anonymousId;
   }
 
   private generateSessionId(): string {
@@ -173,12 +463,23 @@ export class Tracker {
     });
   }
 
+  private generateEventId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+      const r = Math.random() * 16 | 0;
+      const v = c === 'x' ? r : (r & 0x3 | 0x8);
+      return v.toString(16);
+    });
+  }
+
   private initializeSession(): SessionData {
     let sessionData: SessionData;
     
     try {
       // Try to retrieve existing session
-      const storedSession = localStorage.getItem('analytics_session');
+      const storedSession = this.canPersist() ? localStorage.getItem('analytics_session') : null;
       if (storedSession) {
         sessionData = JSON.parse(storedSession);
         
@@ -212,26 +513,32 @@ export class Tracker {
       initialLandingPage: typeof window !== 'undefined' ? window.location.pathname : '',
     };
     
-    try {
-      localStorage.setItem('analytics_session', JSON.stringify(session));
-    } catch (e) {
-      // localStorage not available
+    if (this.canPersist()) {
+      try {
+        localStorage.setItem('analytics_session', JSON.stringify(session));
+      } catch (e) {
+        // localStorage not available
+      }
     }
     
     if (this.options.debug) {
       console.log('[Tracker] New session created:', session);
     }
     
+    this.callPlugins((plugin) => plugin.onSessionStart?.(session));
+    
     return session;
   }
 
   private updateSession(): void {
     this.sessionData.lastActivity = Date.now();
     
-    try {
-      localStorage.setItem('analytics_session', JSON.stringify(this.sessionData));
-    } catch (e) {
-      // localStorage not available
+    if (this.canPersist()) {
+      try {
+        localStorage.setItem('analytics_session', JSON.stringify(this.sessionData));
+      } catch (e) {
+        // localStorage not available
+      }
     }
   }
 
@@ -281,22 +588,13 @@ export class Tracker {
   }
 
   private initBatchProcessing(): void {
-    // Try to load queued events from storage
-    try {
-      const storedEvents = localStorage.getItem('analytics_event_queue');
-      if (storedEvents) {
-        const parsedEvents = JSON.parse(storedEvents);
-        if (Array.isArray(parsedEvents)) {
-          this.eventQueue = parsedEvents;
-          if (this.options.debug) {
-            console.log(`[Tracker] Loaded ${parsedEvents.length} events from storage`);
-          }
-        }
-      }
-    } catch (e) {
-      if (this.options.debug) {
-        console.error('[Tracker] Error loading queued events:', e);
-      }
+    // Load events queued while offline or before the last page closed
+    if (this.options.enableOfflineTracking) {
+      this.storage = createEventStorage(this.generateEventId(), {
+        maxEvents: this.options.maxStoredEvents || 1000,
+        maxAgeMs: (this.options.storedEventTtl || 168) * 60 * 60 * 1000,
+      });
+      this.restoreStoredEvents();
     }
     
     // Set up regular flushing, only if manual flush is not enabled
@@ -304,131 +602,56 @@ export class Tracker {
       this.flushInterval = setInterval(() => this.flushEvents(), this.options.flushInterval);
     }
     
-    // Flush on page unload, even with manual flush enabled
-    window.addEventListener('beforeunload', () => this.flushEvents(true));
-  }
-
-  private setupHistoryTracking(): void {
-    if (typeof window === 'undefined') return;
-    
-    // Track on popstate event (back/forward navigation)
-    window.addEventListener('popstate', () => {
-      this.trackPageview();
+    // Flush when the page is hidden or unloaded, even with manual flush
+    // enabled. Unlike beforeunload, these fire reliably on mobile browsers.
+    // A hidden page usually stays alive, so only pagehide takes the unload path.
+    window.addEventListener('pagehide', () => this.handlePageHide('unload'));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.handlePageHide('keepalive');
+      }
     });
-    
-    // Override history methods to track navigation
-    const originalPushState = history.pushState;
-    const originalReplaceState = history.replaceState;
-    
-    history.pushState = (...args) => {
-      originalPushState.apply(history, args);
-      this.trackPageview();
-    };
-    
-    history.replaceState = (...args) => {
-      originalReplaceState.apply(history, args);
-      this.trackPageview();
-    };
   }
 
-  private trackPerformance(): void {
-    if (typeof window === 'undefined' || !window.performance || !window.performance.timing) return;
-    
-    window.addEventListener('load', () => {
-      // Wait for all resources to load
-      setTimeout(() => {
-        const timing = performance.timing;
-        const performanceData = {
-          dns: timing.domainLookupEnd - timing.domainLookupStart,
-          connect: timing.connectEnd - timing.connectStart,
-          ttfb: timing.responseStart - timing.requestStart,
-          domLoad: timing.domContentLoadedEventEnd - timing.navigationStart,
-          windowLoad: timing.loadEventEnd - timing.navigationStart,
-          interactive: timing.domInteractive - timing.navigationStart,
-        };
-        
-        this.trackEvent({
-          eventName: 'performance_metrics',
-          eventCategory: 'performance',
-          properties: performanceData
-        });
-        
-        if (this.options.debug) {
-          console.log('[Tracker] Performance metrics tracked:', performanceData);
-        }
-      }, 0);
-    });
+  private async restoreStoredEvents(): Promise<void> {
+    if (!this.storage || !this.canPersist()) return;
+
+    try {
+      const storedEvents = await this.storage.load();
+      const queuedIds = new Set(this.eventQueue.map((event) => event.eventId));
+      const restoredEvents = storedEvents.filter((event) => !queuedIds.has(event.eventId));
+      this.eventQueue = [...restoredEvents, ...this.eventQueue];
+      if (this.options.debug) {
+        console.log(`[Tracker] Loaded ${restoredEvents.length} events from storage`);
+      }
+    } catch (e) {
+      if (this.options.debug) {
+        console.error('[Tracker] Error loading queued events:', e);
+      }
+    }
   }
 
-  private trackVisibility(): void {
-    if (typeof document === 'undefined') return;
-    
-    let startTime = Date.now();
-    let isVisible = !document.hidden;
-    
-    document.addEventListener('visibilitychange', () => {
-      const now = Date.now();
-      
-      if (document.hidden) {
-        // Page is now hidden
-        if (isVisible) {
-          const visibleTime = now - startTime;
-          this.trackEvent({
-            eventName: 'visibility_change',
-            eventCategory: 'user_engagement',
-            eventLabel: 'hidden',
-            properties: {
-              visible_time_ms: visibleTime,
-            }
-          });
-          isVisible = false;
-        }
-      } else {
-        // Page is now visible
-        startTime = now;
-        if (!isVisible) {
-          this.trackEvent({
-            eventName: 'visibility_change',
-            eventCategory: 'user_engagement',
-            eventLabel: 'visible',
-          });
-          isVisible = true;
-        }
+  private storeEvents(events: QueuedEvent[]): void {
+    if (!this.storage || !this.canPersist() || events.length === 0) return;
+    this.storage.add(events).catch((e) => {
+      if (this.options.debug) {
+        console.error('[Tracker] Error storing event queue:', e);
       }
     });
   }
 
-  private trackErrors(): void {
-    if (typeof window === 'undefined') return;
-    
-    window.addEventListener('error', (event) => {
-      this.trackEvent({
-        eventName: 'js_error',
-        eventCategory: 'error',
-        eventLabel: event.message,
-        properties: {
-          message: event.message,
-          filename: event.filename,
-          lineno: event.lineno,
-          colno: event.colno,
-          stack: event.error ? event.error.stack : undefined,
-        }
-      });
-    });
-    
-    window.addEventListener('unhandledrejection', (event) => {
-      this.trackEvent({
-        eventName: 'unhandled_promise_rejection',
-        eventCategory: 'error',
-        eventLabel: String(event.reason),
-        properties: {
-          reason: String(event.reason),
-          stack: event.reason?.stack,
-        }
-      });
+  private removeStoredEvents(events: QueuedEvent[]): void {
+    if (!this.storage || !this.canPersist() || events.length === 0) return;
+    this.storage.remove(events).catch(() => {
+      // Ignore storage errors
     });
   }
 
+  private handlePageHide(mode: FlushMode): void {
+    this.callPlugins((plugin) => plugin.onPageHide?.());
+    this.flushEvents(mode);
+  }
+
   private getScreenDimensions(): string {
     if (typeof window === 'undefined') return '';
     return `${window.screen.width}x${window.screen.height}x${window.screenX}x${window.screenY}`;
@@ -439,13 +662,25 @@ export class Tracker {
     return `${window.innerWidth}x${window.innerHeight}`;
   }
 
+  private getCampaignParams(): Record<string, string> {
+    const params: Record<string, string> = {};
+    const search = new URLSearchParams(window.location.search);
+    for (const name of CAMPAIGN_PARAMS) {
+      const value = search.get(name);
+      if (value) {
+        params[name] = value;
+      }
+    }
+    return params;
+  }
+
   /**
    * Get common query parameters for all tracking calls
    */
   private getCommonParams(): Record<string, string> {
     if (typeof window === 'undefined') return {};
 
-    return {
+    const params: Record<string, string> = {
       s: this.options.siteId, // Site ID
       ts: Date.now().toString(), // Timestamp
       vtag: '1.0.0', // Version tag
@@ -455,17 +690,33 @@ export class Tracker {
       library_version: '1.1.0', // Library version (updated)
       app_name: 'analytics-pipeline', // App name
       app_type: 'web', // App type
-      user_id: this.userId, // User ID
+      user_id: this.getUserId(), // User ID
       session_id: this.sessionData.id, // Session ID
       p: window.location.pathname, // Page path
       ref: document.referrer, // Referrer
       domain: window.location.hostname, // Domain
       protocol: window.location.protocol.replace(':', ''), // Protocol
       title: document.title, // Page title
+      ...this.getCampaignParams(), // UTM tags and ad click IDs
     };
+
+    // Without consent the Worker falls back to its anonymous visitor hash
+    if (!this.canPersist()) {
+      delete params.user_id;
+    }
+
+    return params;
   }
 
-  private queueEvent(event: TrackEventOptions | TrackPageviewOptions, type: 'event' | 'pageview'): void {
+  private queueEvent(
+    event:
+      | TrackEventOptions
+      | TrackPageviewOptions
+      | TrackWebVitalOptions
+      | TrackIdentityOptions
+      | TrackEcommerceOptions,
+    type: QueuedEvent['type'],
+  ): void {
     // Skip if we're not sampling this event
     if (!this.shouldSampleEvent()) {
       if (this.options.debug) {
@@ -474,25 +725,67 @@ export class Tracker {
       return;
     }
     
-    // Add timestamp to the queued event
-    const queueItem: QueuedEvent = { 
+    // Add an ID and timestamp to the queued event. The ID stays the same
+    // across retries so the Worker can drop events it has already accepted.
+    // The user ID is fixed too, so events queued before the visitor is
+    // identified stay with their anonymous ID.
+    let queueItem = { 
+      ...(this.canPersist() ? { userId: this.getUserId() } : {}),
       ...event, 
       type,
+      eventId: this.generateEventId(),
       timestamp: Date.now()
-    };
+    } as QueuedEvent;
+
+    // Let plugins enrich or drop the event
+    let droppedBy: string | null = null;
+    this.callPlugins((plugin) => {
+      if (droppedBy || !plugin.beforeQueue) return;
+      const result = plugin.beforeQueue(queueItem);
+      if (result === null) {
+        droppedBy = plugin.name;
+      } else if (result) {
+        queueItem = result;
+      }
+    });
+    if (droppedBy) {
+      if (this.options.debug) {
+        console.log(`[Tracker] Event dropped by plugin ${droppedBy}`, event);
+      }
+      return;
+    }
+
+    // Drop events the Worker would reject rather than sending them
+    const validation = validateQueuedEvent(queueItem);
+    if (!validation.valid) {
+      if (this.options.debug) {
+        console.error('[Tracker] Invalid event dropped:', validation.errors, event);
+      }
+      return;
+    }
+
+    // Hold identity events until the visitor decides on consent. They can't
+    // be sent anonymously, so they wait outside the queue.
+    if (queueItem.type === 'identify' && this.consent.mode === 'pending') {
+      this.heldIdentityEvents.push(queueItem);
+      if (this.options.debug) {
+        console.log('[Tracker] Identity event held until consent is given', event);
+      }
+      return;
+    }
+
+    // Drop events the visitor hasn't consented to
+    if (!this.isConsentedEvent(queueItem)) {
+      if (this.options.debug) {
+        console.log(`[Tracker] Event dropped without consent (${this.consent.mode})`, event);
+      }
+      return;
+    }
     
     this.eventQueue.push(queueItem);
     
-    // Store in localStorage for offline recovery
-    if (this.options.enableOfflineTracking) {
-      try {
-        localStorage.setItem('analytics_event_queue', JSON.stringify(this.eventQueue));
-      } catch (e) {
-        if (this.options.debug) {
-          console.error('[Tracker] Error storing event queue:', e);
-        }
-      }
-    }
+    // Store for offline recovery until the event is sent
+    this.storeEvents([queueItem]);
     
     // If queue size exceeds threshold and auto-flush is enabled, flush immediately
     if (!this.options.manualFlush && this.eventQueue.length >= (this.options.batchSize || 10)) {
@@ -506,84 +799,369 @@ export class Tracker {
   }
 
   /**
-   * Manually flush events from the queue
+   * Manually flush events from the queue. Passing true is the same as the
+   * 'unload' mode.
    */
-  public async flushEvents(isUnloading = false): Promise<void> {
-    // Don't flush if offline (unless page is unloading)
-    if (this.connectionStatus === 'offline' && !isUnloading) {
+  public async flushEvents(mode: FlushMode | boolean = 'normal'): Promise<void> {
+    const flushMode: FlushMode = mode === true ? 'unload' : mode === false ? 'normal' : mode;
+
+    // Don't flush if offline, even while unloading: a beacon would be queued
+    // by the browser and never delivered. Stored events are sent later.
+    if (this.connectionStatus === 'offline') {
       if (this.options.debug) {
         console.log('[Tracker] Skip flushing - offline');
       }
       return;
     }
     
-    // Don't flush if already sending or queue empty
-    if (this.isSending || this.eventQueue.length === 0) return;
+    // Hold events in memory until consent is given
+    if (!this.canSendEvents()) {
+      if (this.options.debug) {
+        console.log(`[Tracker] Skip flushing - consent ${this.consent.mode}`);
+      }
+      return;
+    }
+    
+    // Back off after failures, while the circuit is open or while the server
+    // is rate limiting us. Events held during unload stay in storage.
+    if (this.isFlushPaused()) {
+      if (this.options.debug) {
+        const resumeAt = this.getNextRetryAt();
+        console.log(`[Tracker] Skip flushing - circuit ${this.getCircuitState()}, retrying at ${resumeAt ? new Date(resumeAt).toISOString() : 'next flush'}`);
+      }
+      return;
+    }
+    
+    // Don't flush if already sending or queue empty. Unload and keepalive
+    // flushes go ahead anyway, since the page may not get another chance.
+    if ((this.isSending && flushMode === 'normal') || this.eventQueue.length === 0) return;
     
     this.isSending = true;
     
-    // Copy events to send and clear queue
+    // Copy events to send and clear queue. Stored copies are kept until
+    // their batch is sent, so they survive a failed send or page close.
     const eventsToSend = [...this.eventQueue];
     this.eventQueue = [];
     
-    // Clear stored queue
-    if (this.options.enableOfflineTracking) {
+    const failedEvents: QueuedEvent[] = [];
+    for (const chunk of this.chunkEvents(eventsToSend)) {
+      // Hold the remaining chunks once a send fails or is rate limited
+      if (this.isFlushPaused()) {
+        failedEvents.push(...chunk);
+        continue;
+      }
+      
       try {
-        localStorage.setItem('analytics_event_queue', JSON.stringify([]));
-      } catch (e) {
-        // Ignore storage errors
+        const confirmed = await this.sendBatch(chunk, flushMode);
+        this.recordFlushSuccess(chunk, confirmed);
+        this.callPlugins((plugin) => plugin.afterSend?.(chunk, { ok: true }));
+      } catch (error) {
+        if (this.options.debug) {
+          console.error('[Tracker] Error flushing events:', error);
+        }
+        
+        const status = error instanceof FlushError ? error.status : undefined;
+        this.callPlugins((plugin) => plugin.afterSend?.(chunk, { ok: false, status }));
+        if (error instanceof FlushError && this.applyBatchLimits(chunk, error.limits)) {
+          // Too large for the site's limits: split and sent on the next flush
+          failedEvents.push(...chunk);
+        } else if (status && this.retryOptions.dropStatuses.includes(status)) {
+          // The server will never accept these events
+          this.dropEvents(chunk, 'rejected');
+        } else if (status === 429) {
+          failedEvents.push(...chunk);
+        } else {
+          this.recordFlushFailure();
+          failedEvents.push(...this.countAttempt(chunk));
+        }
       }
     }
     
-    try {
-      // Send events in batch
-      const response = await fetch(this.options.batchEndpoint || '/batch', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          siteId: this.options.siteId,
-          userId: this.userId,
-          sessionId: this.sessionData.id,
-          timestamp: Date.now(),
-          events: eventsToSend,
-          commonParams: this.getCommonParams(),
-        }),
-        // Using keepalive to ensure request completes even if page unloads
-        keepalive: isUnloading,
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
+    // Put events back in queue if failed (unless unloading)
+    if (failedEvents.length > 0 && flushMode !== 'unload') {
+      this.eventQueue = [...failedEvents, ...this.eventQueue];
+    }
+    
+    this.isSending = false;
+  }
+
+  private getCircuitState(): CircuitState {
+    if (this.consecutiveFailures < this.retryOptions.circuitBreakerThreshold) return 'closed';
+    return Date.now() < this.circuitOpenUntil ? 'open' : 'half-open';
+  }
+
+  private getNextRetryAt(): number | null {
+    const nextRetryAt = Math.max(this.retryAfter, this.backoffUntil, this.circuitOpenUntil);
+    return nextRetryAt > Date.now() ? nextRetryAt : null;
+  }
+
+  private isFlushPaused(): boolean {
+    return this.getNextRetryAt() !== null;
+  }
+
+  private recordFlushSuccess(events: QueuedEvent[], confirmed: boolean): void {
+    // A beacon is only queued by the browser, so stored copies of its events
+    // are kept until a later send is confirmed. If the page closes first,
+    // they are sent again next visit and the Worker drops the duplicates.
+    if (!confirmed) {
+      this.unconfirmedEvents.push(...events);
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    this.backoffUntil = 0;
+    this.circuitOpenUntil = 0;
+    for (const event of events) {
+      if (event.eventId) this.eventAttempts.delete(event.eventId);
+    }
+    this.removeStoredEvents([...this.unconfirmedEvents, ...events]);
+    this.unconfirmedEvents = [];
+  }
+
+  /**
+   * Back off exponentially after a failed send, and open the circuit after
+   * too many failures in a row. A failure while half-open reopens it.
+   */
+  private recordFlushFailure(): void {
+    const { baseDelay, maxDelay, circuitBreakerThreshold, circuitBreakerCooldown } = this.retryOptions;
+    this.consecutiveFailures += 1;
+
+    // Equal jitter: wait at least half the delay, so clients that failed
+    // together don't retry in lockstep
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (this.consecutiveFailures - 1));
+    this.backoffUntil = Date.now() + delay / 2 + Math.random() * (delay / 2);
+
+    if (this.consecutiveFailures >= circuitBreakerThreshold) {
+      this.circuitOpenUntil = Date.now() + circuitBreakerCooldown;
       if (this.options.debug) {
-        console.log(`[Tracker] Successfully flushed ${eventsToSend.length} events`);
+        console.warn(`[Tracker] Circuit open after ${this.consecutiveFailures} failed flushes`);
       }
-    } catch (error) {
-      if (this.options.debug) {
-        console.error('[Tracker] Error flushing events:', error);
+    }
+
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    const nextRetryAt = this.getNextRetryAt();
+    if (this.options.manualFlush || nextRetryAt === null) return;
+
+    if (this.retryTimeout) clearTimeout(this.retryTimeout);
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      this.flushEvents();
+    }, nextRetryAt - Date.now());
+  }
+
+  /**
+   * Count a failed send against each event, dropping those that have used up
+   * their attempts. Returns the events to retry.
+   */
+  private countAttempt(events: QueuedEvent[]): QueuedEvent[] {
+    const retryEvents: QueuedEvent[] = [];
+    const exhaustedEvents: QueuedEvent[] = [];
+
+    for (const event of events) {
+      if (!event.eventId) {
+        retryEvents.push(event);
+        continue;
       }
-      
-      // Put events back in queue if failed (unless unloading)
-      if (!isUnloading) {
-        this.eventQueue = [...eventsToSend, ...this.eventQueue];
-        
-        // Store updated queue
-        if (this.options.enableOfflineTracking) {
-          try {
-            localStorage.setItem('analytics_event_queue', JSON.stringify(this.eventQueue));
-          } catch (e) {
-            // Ignore storage errors
-          }
+      const attempts = (this.eventAttempts.get(event.eventId) || 0) + 1;
+      if (attempts >= this.retryOptions.maxAttempts) {
+        exhaustedEvents.push(event);
+      } else {
+        this.eventAttempts.set(event.eventId, attempts);
+        retryEvents.push(event);
+      }
+    }
+
+    if (exhaustedEvents.length > 0) {
+      this.dropEvents(exhaustedEvents, 'max_attempts');
+    }
+    return retryEvents;
+  }
+
+  private dropEvents(events: QueuedEvent[], reason: DropReason): void {
+    this.droppedEventCount += events.length;
+    for (const event of events) {
+      if (event.eventId) this.eventAttempts.delete(event.eventId);
+    }
+    this.removeStoredEvents(events);
+
+    if (this.options.debug) {
+      console.warn(`[Tracker] Dropped ${events.length} events (${reason})`, events);
+    }
+    this.options.onDroppedEvents?.(events, reason);
+  }
+
+  private buildBatchPayload(events: QueuedEvent[]): BatchPayload {
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      siteId: this.options.siteId,
+      userId: this.canPersist() ? this.getUserId() : undefined,
+      sessionId: this.sessionData.id,
+      timestamp: Date.now(),
+      // Events queued with consent carry a user ID, which mustn't be sent
+      // once consent is withdrawn
+      events: this.canPersist() ? events : events.map((event) => ({ ...event, userId: undefined }) as QueuedEvent),
+      commonParams: this.getCommonParams(),
+    };
+  }
+
+  /**
+   * Adopt batch limits the Worker sent with a 413, never raising our own.
+   * Returns whether the batch can now be split to fit them; a single event
+   * that is too large on its own can't be.
+   */
+  private applyBatchLimits(events: QueuedEvent[], limits: BatchLimits | undefined): boolean {
+    if (!limits) return false;
+    this.batchLimits = {
+      maxBatchEvents: Math.min(this.batchLimits.maxBatchEvents, limits.maxBatchEvents),
+      maxBodyBytes: Math.min(this.batchLimits.maxBodyBytes, limits.maxBodyBytes),
+    };
+    return this.chunkEvents(events).length > 1;
+  }
+
+  /**
+   * Split events into batches whose payloads fit under the unload size limit
+   * and the Worker's batch limits
+   */
+  private chunkEvents(events: QueuedEvent[]): QueuedEvent[][] {
+    const { maxBatchEvents, maxBodyBytes } = this.batchLimits;
+    const envelopeBytes = getByteLength(JSON.stringify(this.buildBatchPayload([])));
+    const chunks: QueuedEvent[][] = [];
+    let chunk: QueuedEvent[] = [];
+    let chunkBytes = envelopeBytes;
+
+    for (const event of events) {
+      // Events are joined by commas in the events array
+      const eventBytes = getByteLength(JSON.stringify(event)) + 1;
+      if (chunk.length > 0 && (chunkBytes + eventBytes > maxBodyBytes || chunk.length >= maxBatchEvents)) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkBytes = envelopeBytes;
+      }
+      chunk.push(event);
+      chunkBytes += eventBytes;
+    }
+
+    if (chunk.length > 0) chunks.push(chunk);
+    return chunks;
+  }
+
+  /**
+   * Send a batch to the Worker. While the page unloads, the batch goes by
+   * sendBeacon, falling back to a keepalive fetch if the beacon is refused.
+   * Resolves to whether the Worker confirmed receipt, which a beacon can't.
+   */
+  private async sendBatch(events: QueuedEvent[], mode: FlushMode): Promise<boolean> {
+    const endpoint = this.options.batchEndpoint || '/batch';
+    let payload = this.buildBatchPayload(events);
+    this.callPlugins((plugin) => {
+      if (plugin.beforeSend) payload = plugin.beforeSend(payload) || payload;
+    });
+    const body = JSON.stringify(payload);
+
+    // Beacons can't set headers, so the site key goes in the URL. Sending
+    // text/plain keeps the request simple, avoiding a CORS preflight.
+    if (mode === 'unload' && typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      const beaconUrl = this.options.siteKey
+        ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}key=${encodeURIComponent(this.options.siteKey)}`
+        : endpoint;
+      if (navigator.sendBeacon(beaconUrl, new Blob([body], { type: 'text/plain' }))) {
+        if (this.options.debug) {
+          console.log(`[Tracker] Sent ${events.length} events by beacon`);
         }
+        return false;
       }
-    } finally {
-      this.isSending = false;
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.siteKey ? { 'X-Site-Key': this.options.siteKey } : {}),
+      },
+      body,
+      // Using keepalive to ensure request completes even if page unloads
+      keepalive: mode !== 'normal',
+    });
+    
+    if (response.status === 429) {
+      this.retryAfter = Date.now() + parseRetryAfter(response.headers.get('Retry-After'));
+      this.scheduleRetry();
+    }
+    
+    if (!response.ok) {
+      const limits = response.status === 413 ? parseBatchLimits(await response.json().catch(() => null)) : undefined;
+      throw new FlushError(`HTTP error! status: ${response.status}`, response.status, limits);
+    }
+    
+    if (this.options.debug) {
+      console.log(`[Tracker] Successfully flushed ${events.length} events`);
+
+      const result = await response.json().catch(() => null);
+      if (result?.rejected?.length) {
+        console.warn('[Tracker] Events rejected by server:', result.rejected);
+      }
+      if (result?.duplicates) {
+        console.log(`[Tracker] ${result.duplicates} events were already received`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Update the visitor's consent. Granting consent persists identifiers and
+   * sends held events; withdrawing it clears everything stored on the device.
+   */
+  public setConsent(consent: ConsentMode | ConsentState): void {
+    const previousMode = this.consent.mode;
+    this.consent = this.resolveConsent(consent);
+
+    if (this.consent.mode === 'granted' && previousMode !== 'granted') {
+      // Identifiers and events can now be stored
+      this.anonymousId = this.generateUserId();
+      this.identifiedUserId = this.identifiedUserId || this.loadIdentifiedUserId();
+      this.storeIdentifiedUserId();
+      this.updateSession();
+      this.restoreStoredEvents();
+
+      // Identity events held while pending link the anonymous ID the visitor
+      // has now, which is only assigned once consent is given
+      this.eventQueue.push(...this.heldIdentityEvents.map((event) =>
+        event.type === 'identify' && event.action === 'identify' ? { ...event, anonymousId: this.anonymousId } : event,
+      ));
+    } else if (this.consent.mode !== 'granted' && previousMode === 'granted') {
+      this.clearStoredData();
+      this.anonymousId = this.generateUserId();
+    }
+
+    if (this.consent.mode !== 'pending') {
+      this.heldIdentityEvents = [];
+    }
+
+    // Drop held events that are no longer covered by consent
+    const droppedEvents = this.eventQueue.filter((event) => !this.isConsentedEvent(event));
+    this.eventQueue = this.eventQueue.filter((event) => this.isConsentedEvent(event));
+    this.removeStoredEvents(droppedEvents);
+    this.storeEvents(this.eventQueue);
+
+    if (this.options.debug) {
+      console.log('[Tracker] Consent updated:', this.consent);
+    }
+
+    if (!this.options.manualFlush && this.canSendEvents() && this.eventQueue.length > 0) {
+      this.flushEvents();
     }
   }
 
+  /**
+   * Get the current consent state
+   */
+  public getConsent(): ConsentState {
+    return { mode: this.consent.mode, categories: { ...this.consent.categories } };
+  }
+
   /**
    * Set manual flush mode on or off
    */
@@ -654,50 +1232,130 @@ export class Tracker {
     this.queueEvent(options, 'event');
   }
 
+  /**
+   * Track a web vital measurement. These don't count as session activity.
+   */
+  public trackWebVital(options: TrackWebVitalOptions): void {
+    if (typeof window === 'undefined') return;
+    this.queueEvent(options, 'web_vitals');
+  }
+
+  /**
+   * Track a visitor viewing a product
+   */
+  public trackProductView(product: EcommerceItem, currency?: string): void {
+    this.trackEcommerce({ action: 'product_view', items: [product], currency });
+  }
+
+  /**
+   * Track products being added to the cart
+   */
+  public trackAddToCart(items: EcommerceItem | EcommerceItem[], currency?: string): void {
+    this.trackEcommerce({ action: 'add_to_cart', items: Array.isArray(items) ? items : [items], currency });
+  }
+
+  /**
+   * Track the start of a checkout. Revenue defaults to the items' total
+   * plus tax and shipping.
+   */
+  public trackCheckout(checkout: EcommerceOrder): void {
+    this.trackEcommerce({ ...checkout, action: 'checkout' });
+  }
+
+  /**
+   * Track a completed purchase. The Worker records each order ID once, so
+   * it is safe to track again if the confirmation page is reloaded.
+   */
+  public trackPurchase(order: EcommerceOrder & { orderId: string }): void {
+    this.trackEcommerce({ ...order, action: 'purchase' });
+  }
+
+  private trackEcommerce(options: TrackEcommerceOptions): void {
+    if (typeof window === 'undefined') return;
+
+    // Update session data
+    this.sessionData.events += 1;
+    this.updateSession();
+
+    // Only orders have revenue. Product views and cart additions would
+    // otherwise be counted as revenue alongside the purchase.
+    const isOrder = options.action === 'checkout' || options.action === 'purchase';
+    const revenue = isOrder ? options.revenue ?? getEcommerceRevenue(options) : options.revenue;
+    this.queueEvent({ ...options, revenue }, 'ecommerce');
+  }
+
+  /**
+   * Identify the visitor as a known user, e.g. after they log in. Events
+   * from then on carry the user ID, and an identity event links it to the
+   * visitor's anonymous ID so earlier activity can be attributed to them.
+   * While consent is pending, the identity event waits for it.
+   */
+  public identify(userId: string, traits?: Record<string, unknown>): void {
+    if (typeof window === 'undefined') return;
+
+    this.identifiedUserId = userId;
+    this.storeIdentifiedUserId();
+    this.queueEvent({ action: 'identify', userId, anonymousId: this.anonymousId, traits }, 'identify');
+  }
+
+  /**
+   * Link a previous user ID to a new one, e.g. when an account's ID changes.
+   * The previous ID defaults to the current user ID.
+   */
+  public alias(userId: string, previousId = this.getUserId()): void {
+    if (typeof window === 'undefined') return;
+    this.queueEvent({ action: 'alias', userId, previousId }, 'identify');
+  }
+
+  /**
+   * Forget the identified user, e.g. when they log out. The visitor gets a
+   * new anonymous ID and session, so later activity isn't linked to them.
+   */
+  public reset(): void {
+    this.identifiedUserId = null;
+    this.heldIdentityEvents = [];
+    this.storeIdentifiedUserId();
+    try {
+      localStorage.removeItem('analytics_user_id');
+    } catch (e) {
+      // localStorage not available
+    }
+    this.anonymousId = this.generateUserId();
+    this.sessionData = this.createNewSession();
+  }
+
   /**
    * Track user engagement metrics (scroll depth, time spent, etc.)
    */
   public trackEngagement(): void {
     if (typeof window === 'undefined') return;
-    
-    let maxScroll = 0;
-    const startTime = Date.now();
-    
-    // Track scroll depth
-    window.addEventListener('scroll', () => {
-      const scrollHeight = document.documentElement.scrollHeight - window.innerHeight;
-      if (scrollHeight) {
-        const scrolled = Math.round((window.scrollY / scrollHeight) * 100);
-        if (scrolled > maxScroll) {
-          maxScroll = scrolled;
-          
-          // Track scroll milestones (25%, 50%, 75%, 90%)
-          if ([25, 50, 75, 90].includes(maxScroll)) {
-            this.trackEvent({
-              eventName: 'scroll_milestone',
-              eventCategory: 'engagement',
-              eventLabel: `${maxScroll}%`,
-              eventValue: maxScroll
-            });
-          }
+    this.use(engagementPlugin());
+  }
+
+  /**
+   * Track clicks on outbound links, file downloads and mailto: and tel:
+   * links, as outbound_link and file_download events
+   */
+  public trackLinks(options?: LinkTrackingOptions): void {
+    if (typeof window === 'undefined') return;
+    this.use(linksPlugin(options));
+  }
+
+  /**
+   * Install a plugin. Plugins are set up straight away and torn down on
+   * cleanup. A plugin with the same name as an installed one is ignored.
+   */
+  public use(plugin: TrackerPlugin): this {
+    if (this.addPlugin(plugin)) {
+      try {
+        plugin.setup?.(this);
+      } catch (e) {
+        if (this.options.debug) {
+          console.error(`[Tracker] Plugin ${plugin.name} failed:`, e);
         }
       }
-    }, { passive: true });
-    
-    // Track time spent on page when leaving
-    window.addEventListener('beforeunload', () => {
-      const timeSpentSeconds = Math.round((Date.now() - startTime) / 1000);
-      
-      this.trackEvent({
-        eventName: 'time_spent',
-        eventCategory: 'engagement',
-        eventValue: timeSpentSeconds,
-        properties: {
-          seconds: timeSpentSeconds,
-          maxScrollPercentage: maxScroll
-        }
-      });
-    });
+    }
+    return this;
   }
 
   /**
@@ -765,7 +1423,11 @@ export class Tracker {
       queueLength: this.eventQueue.length,
       events: [...this.eventQueue],
       connectionStatus: this.connectionStatus,
-      manualFlush: this.options.manualFlush || false
+      manualFlush: this.options.manualFlush || false,
+      circuitState: this.getCircuitState(),
+      consecutiveFailures: this.consecutiveFailures,
+      nextRetryAt: this.getNextRetryAt(),
+      droppedEvents: this.droppedEventCount,
     };
   }
 
@@ -774,7 +1436,7 @@ export class Tracker {
    */
   public cleanup(): void {
     // Flush any remaining events
-    this.flushEvents(true);
+    this.flushEvents('unload');
     
     // Clear intervals
     if (this.flushInterval) {
@@ -786,6 +1448,15 @@ export class Tracker {
       clearInterval(this.sessionInterval);
       this.sessionInterval = null;
     }
+    
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+    
+    // Tear down plugins
+    this.callPlugins((plugin) => plugin.teardown?.());
+    this.plugins = [];
   }
 }
 
@@ -824,6 +1495,78 @@ export function trackEngagement(): void {
   tracker.trackEngagement();
 }
 
+// Track outbound links, downloads and contact links
+export function trackLinks(options?: LinkTrackingOptions): void {
+  if (!tracker) {
+    throw new Error('You must call init() before tracking links');
+  }
+  tracker.trackLinks(options);
+}
+
+// Install a plugin
+export function use(plugin: TrackerPlugin): void {
+  if (!tracker) {
+    throw new Error('You must call init() before installing plugins');
+  }
+  tracker.use(plugin);
+}
+
+// Track a visitor viewing a product
+export function trackProductView(product: EcommerceItem, currency?: string): void {
+  if (!tracker) {
+    throw new Error('You must call init() before tracking ecommerce events');
+  }
+  tracker.trackProductView(product, currency);
+}
+
+// Track products being added to the cart
+export function trackAddToCart(items: EcommerceItem | EcommerceItem[], currency?: string): void {
+  if (!tracker) {
+    throw new Error('You must call init() before tracking ecommerce events');
+  }
+  tracker.trackAddToCart(items, currency);
+}
+
+// Track the start of a checkout
+export function trackCheckout(checkout: EcommerceOrder): void {
+  if (!tracker) {
+    throw new Error('You must call init() before tracking ecommerce events');
+  }
+  tracker.trackCheckout(checkout);
+}
+
+// Track a completed purchase
+export function trackPurchase(order: EcommerceOrder & { orderId: string }): void {
+  if (!tracker) {
+    throw new Error('You must call init() before tracking ecommerce events');
+  }
+  tracker.trackPurchase(order);
+}
+
+// Identify the visitor as a known user
+export function identify(userId: string, traits?: Record<string, unknown>): void {
+  if (!tracker) {
+    throw new Error('You must call init() before identifying users');
+  }
+  tracker.identify(userId, traits);
+}
+
+// Link a previous user ID to a new one
+export function alias(userId: string, previousId?: string): void {
+  if (!tracker) {
+    throw new Error('You must call init() before aliasing users');
+  }
+  tracker.alias(userId, previousId);
+}
+
+// Forget the identified user
+export function reset(): void {
+  if (!tracker) {
+    throw new Error('You must call init() before resetting the user');
+  }
+  tracker.reset();
+}
+
 // Track clicks on elements
 export function trackClicks(selector: string, options?: {
   category?: string;
@@ -840,7 +1583,16 @@ export function trackClicks(selector: string, options?: {
 // Get queue status for monitoring
 export function getQueueStatus(): QueueStatus {
   if (!tracker) {
-    return { queueLength: 0, events: [], connectionStatus: 'online', manualFlush: false };
+    return {
+      queueLength: 0,
+      events: [],
+      connectionStatus: 'online',
+      manualFlush: false,
+      circuitState: 'closed',
+      consecutiveFailures: 0,
+      nextRetryAt: null,
+      droppedEvents: 0,
+    };
   }
   return tracker.getQueueStatus();
 }
@@ -861,6 +1613,19 @@ export function setManualFlush(enabled: boolean): void {
   tracker.setManualFlush(enabled);
 }
 
+// Update consent
+export function setConsent(consent: ConsentMode | ConsentState): void {
+  if (!tracker) {
+    throw new Error('You must call init() before setting consent');
+  }
+  tracker.setConsent(consent);
+}
+
+// Get current consent
+export function getConsent(): ConsentState | undefined {
+  return tracker?.getConsent();
+}
+
 // Cleanup tracker
 export function cleanup(): void {
   if (tracker) {
@@ -875,9 +1640,20 @@ export default {
   trackPageview,
   trackEvent,
   trackEngagement,
+  trackLinks,
+  trackProductView,
+  trackAddToCart,
+  trackCheckout,
+  trackPurchase,
+  use,
+  identify,
+  alias,
+  reset,
   trackClicks,
   getQueueStatus,
   flushEvents,
   setManualFlush,
+  setConsent,
+  getConsent,
   cleanup,
 };
\ No newline at end of file
@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import BreakdownCard from '../components/dashboard/BreakdownCard';
+import DashboardControls, { type Period } from '../components/dashboard/DashboardControls';
+import { formatDuration } from '../components/dashboard/format';
+import FunnelCard from '../components/dashboard/FunnelCard';
+import MetricCard from '../components/dashboard/MetricCard';
+import StatsKeyForm from '../components/dashboard/StatsKeyForm';
+import TimeseriesChart from '../components/dashboard/TimeseriesChart';
+import {
+  formatFunnelStep,
+  getAggregate,
+  getBreakdown,
+  getFunnel,
+  getRealtimeVisitors,
+  getTimeseries,
+  getTopPages,
+  getTopSources,
+  parseFunnelStep,
+  StatsApiError,
+  type AggregateStats,
+  type BreakdownRow,
+  type FunnelGrouping,
+  type FunnelResult,
+  type FunnelStep,
+  type StatsInterval,
+  type StatsParams,
+  type StatsProperty,
+  type TimeseriesPoint,
+} from '../lib/stats-api';
+
+const FILTER_PROPERTIES: StatsProperty[] = ['path', 'source', 'browser', 'os', 'device', 'country'];
+const REALTIME_REFRESH_MS = 30000;
+
+// Stats keys are kept for the browser session, per site, rather than in the
+// URL, so shared dashboard links don't leak them
+function getStoredStatsKey(siteId: string): string {
+  try {
+    return sessionStorage.getItem(`stats_key:${siteId}`) || '';
+  } catch {
+    return '';
+  }
+}
+
+function storeStatsKey(siteId: string, statsKey: string): void {
+  try {
+    sessionStorage.setItem(`stats_key:${siteId}`, statsKey);
+  } catch {
+    // Storage unavailable, the key only lasts until the page is left
+  }
+}
+
+interface DashboardData {
+  aggregate: AggregateStats | null;
+  timeseries: TimeseriesPoint[];
+  pages: BreakdownRow[];
+  sources: BreakdownRow[];
+  browsers: BreakdownRow[];
+  operatingSystems: BreakdownRow[];
+  devices: BreakdownRow[];
+  countries: BreakdownRow[];
+}
+
+const EMPTY_DATA: DashboardData = {
+  aggregate: null,
+  timeseries: [],
+  pages: [],
+  sources: [],
+  browsers: [],
+  operatingSystems: [],
+  devices: [],
+  countries: [],
+};
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Resolve a period preset to an inclusive date range and chart interval
+function getDateRange(period: Period, customFrom: string, customTo: string): {
+  from: string;
+  to: string;
+  interval: StatsInterval;
+} {
+  const today = new Date();
+  const daysAgo = (days: number) => formatDay(new Date(today.getTime() - days * 24 * 60 * 60 * 1000));
+
+  if (period === 'today') return { from: formatDay(today), to: formatDay(today), interval: 'hour' };
+  if (period === '30d') return { from: daysAgo(29), to: formatDay(today), interval: 'day' };
+  if (period === 'custom' && customFrom && customTo) {
+    const days = (new Date(customTo).getTime() - new Date(customFrom).getTime()) / (24 * 60 * 60 * 1000);
+    return { from: customFrom, to: customTo, interval: days < 2 ? 'hour' : days > 92 ? 'month' : 'day' };
+  }
+  return { from: daysAgo(6), to: formatDay(today), interval: 'day' };
+}
+
+function Dashboard() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [data, setData] = useState<DashboardData>(EMPTY_DATA);
+  const [realtimeVisitors, setRealtimeVisitors] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsStatsKey, setNeedsStatsKey] = useState(false);
+  const [funnel, setFunnel] = useState<FunnelResult | null>(null);
+  const [funnelLoading, setFunnelLoading] = useState(false);
+  const [funnelError, setFunnelError] = useState<string | null>(null);
+
+  const siteId = searchParams.get('site_id') || 'test';
+  const [statsKeys, setStatsKeys] = useState<Record<string, string>>({});
+  const statsKey = statsKeys[siteId] ?? getStoredStatsKey(siteId);
+  const period = (searchParams.get('period') || '7d') as Period;
+  const range = getDateRange(period, searchParams.get('from') || '', searchParams.get('to') || '');
+
+  // Filters live in the URL so dashboard views can be shared. They are keyed
+  // by their serialised form so the object only changes when a filter does.
+  const activeFilters: Partial<Record<StatsProperty, string>> = {};
+  for (const property of FILTER_PROPERTIES) {
+    const value = searchParams.get(property);
+    if (value) activeFilters[property] = value;
+  }
+  const filterKey = JSON.stringify(activeFilters);
+  const filters = useMemo(() => JSON.parse(filterKey) as Partial<Record<StatsProperty, string>>, [filterKey]);
+
+  // Funnel steps are kept in the URL too, as repeated step params
+  const stepKey = JSON.stringify(searchParams.getAll('step'));
+  const funnelSteps = useMemo(
+    () => (JSON.parse(stepKey) as string[]).map(parseFunnelStep).filter((step): step is FunnelStep => step !== null),
+    [stepKey],
+  );
+  const funnelBy: FunnelGrouping = searchParams.get('funnel_by') === 'user' ? 'user' : 'session';
+
+  const params: StatsParams = useMemo(
+    () => ({ siteId, from: range.from, to: range.to, interval: range.interval, filters, statsKey }),
+    [siteId, range.from, range.to, range.interval, filters, statsKey],
+  );
+
+  // Load all dashboard panels whenever the range or filters change
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    setLoading(true);
+    setError(null);
+    setNeedsStatsKey(false);
+
+    Promise.all([
+      getAggregate(params, signal),
+      getTimeseries(params, signal),
+      getTopPages(params, signal),
+      getTopSources(params, signal),
+      getBreakdown('browser', params, signal),
+      getBreakdown('os', params, signal),
+      getBreakdown('device', params, signal),
+      getBreakdown('country', params, signal),
+    ])
+      .then(([aggregate, timeseries, pages, sources, browsers, operatingSystems, devices, countries]) => {
+        setData({ aggregate, timeseries, pages, sources, browsers, operatingSystems, devices, countries });
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setNeedsStatsKey(err instanceof StatsApiError && err.status === 401);
+        setData(EMPTY_DATA);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [params]);
+
+  // Load the funnel separately, as it only shows once steps are defined
+  useEffect(() => {
+    if (funnelSteps.length < 2) {
+      setFunnel(null);
+      setFunnelError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setFunnelLoading(true);
+    setFunnelError(null);
+    getFunnel(funnelSteps, funnelBy, params, controller.signal)
+      .then((result) => {
+        setFunnel(result);
+        setFunnelLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setFunnelError(err instanceof Error ? err.message : String(err));
+        setFunnel(null);
+        setFunnelLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [funnelSteps, funnelBy, params]);
+
+  // Poll the realtime visitor count
+  useEffect(() => {
+    const controller = new AbortController();
+    const refresh = () => {
+      getRealtimeVisitors({ siteId, statsKey }, controller.signal)
+        .then((result) => setRealtimeVisitors(result.visitors))
+        .catch(() => setRealtimeVisitors(null));
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, REALTIME_REFRESH_MS);
+    return () => {
+      clearInterval(intervalId);
+      controller.abort();
+    };
+  }, [siteId, statsKey]);
+
+  const handleStatsKey = (nextKey: string) => {
+    storeStatsKey(siteId, nextKey);
+    setStatsKeys((keys) => ({ ...keys, [siteId]: nextKey }));
+  };
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [name, value] of Object.entries(updates)) {
+      if (value) {
+        next.set(name, value);
+      } else {
+        next.delete(name);
+      }
+    }
+    setSearchParams(next);
+  };
+
+  const handlePeriodChange = (nextPeriod: Period) => {
+    if (nextPeriod === 'custom') {
+      updateParams({ period: nextPeriod, from: range.from, to: range.to });
+    } else {
+      updateParams({ period: nextPeriod, from: null, to: null });
+    }
+  };
+
+  const addFilter = (property: StatsProperty) => (value: string) => updateParams({ [property]: value });
+
+  const handleFunnelChange = (steps: FunnelStep[], by: FunnelGrouping) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('step');
+    for (const step of steps) {
+      next.append('step', formatFunnelStep(step));
+    }
+    if (by === 'user') {
+      next.set('funnel_by', by);
+    } else {
+      next.delete('funnel_by');
+    }
+    setSearchParams(next);
+  };
+
+  const aggregate = data.aggregate;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <header className="bg-indigo-600 text-white p-4 shadow-md">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-semibold">Analytics Dashboard</h1>
+          <nav className="flex items-center gap-4 text-sm">
+            <span className="inline-flex items-center gap-2 px-2 py-1 rounded bg-indigo-700">
+              <span className="inline-block w-2 h-2 rounded-full bg-green-400" />
+              {realtimeVisitors === null ? '–' : realtimeVisitors} current visitors
+            </span>
+            <Link to="/" className="underline hover:text-indigo-100">
+              Test harness
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Site: {siteId}</h2>
+        </div>
+
+        <DashboardControls
+          period={period}
+          from={range.from}
+          to={range.to}
+          filters={filters}
+          onPeriodChange={handlePeriodChange}
+          onRangeChange={(from, to) => updateParams({ from, to })}
+          onRemoveFilter={(property) => updateParams({ [property]: null })}
+        />
+
+        {error && (
+          <div className="mb-6 p-3 rounded bg-red-100 text-red-800">
+            Failed to load stats: {error}
+          </div>
+        )}
+
+        {needsStatsKey && <StatsKeyForm onSubmit={handleStatsKey} />}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <MetricCard label="Unique visitors" value={(aggregate?.visitors ?? 0).toLocaleString()} loading={loading} />
+          <MetricCard label="Pageviews" value={(aggregate?.pageviews ?? 0).toLocaleString()} loading={loading} />
+          <MetricCard label="Bounce rate" value={`${aggregate?.bounce_rate ?? 0}%`} loading={loading} />
+          <MetricCard label="Visit duration" value={formatDuration(aggregate?.visit_duration ?? 0)} loading={loading} />
+        </div>
+
+        <div className="mb-6">
+          <TimeseriesChart points={data.timeseries} loading={loading} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <BreakdownCard title="Top pages" label="Page" rows={data.pages} loading={loading} onSelect={addFilter('path')} />
+          <BreakdownCard title="Top sources" label="Source" rows={data.sources} loading={loading} onSelect={addFilter('source')} />
+          <BreakdownCard title="Browsers" label="Browser" rows={data.browsers} loading={loading} onSelect={addFilter('browser')} />
+          <BreakdownCard title="Operating systems" label="OS" rows={data.operatingSystems} loading={loading} onSelect={addFilter('os')} />
+          <BreakdownCard title="Devices" label="Device" rows={data.devices} loading={loading} onSelect={addFilter('device')} />
+          <BreakdownCard title="Countries" label="Country" rows={data.countries} loading={loading} onSelect={addFilter('country')} />
+        </div>
+
+        <div className="mt-6">
+          <FunnelCard
+            steps={funnelSteps}
+            by={funnelBy}
+            result={funnel}
+            loading={funnelLoading}
+            error={funnelError}
+            onChange={handleFunnelChange}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default Dashboard;